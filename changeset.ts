@@ -0,0 +1,209 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { basename } from "@std/path/basename";
+import { join } from "@std/path/join";
+import { ensureDir } from "@std/fs/ensure-dir";
+import { InvalidChangesetError } from "./errors.ts";
+import {
+  type Commit,
+  type FileReader,
+  fsReader,
+  getModule,
+  getWorkspaceModules,
+  type VersionBump,
+  type VersionBumpKind,
+} from "./util.ts";
+
+/**
+ * Changesets are the alternative input of the version bumps to the commit
+ * messages. A changeset is a markdown file in `.changes` directory, which has
+ * the front matter listing the modules and their bump levels, and the
+ * description of the change:
+ *
+ * ```md
+ * ---
+ * "@scope/foo": minor
+ * "@scope/bar": patch
+ * ---
+ *
+ * Add the streaming API.
+ * ```
+ *
+ * The changesets are consumed by `bumpWorkspaces`, which deletes the files in
+ * the release commit.
+ *
+ * @module
+ */
+
+/** The default directory of the changeset files, relative to the root */
+export const DEFAULT_CHANGESET_DIR = ".changes";
+
+/** The parsed changeset file */
+export type Changeset = {
+  /** The path of the changeset file */
+  path: string;
+  /** The bump levels keyed by the module names */
+  bumps: Record<string, VersionBumpKind>;
+  /** The description of the change. The first line is used as the subject in the release note. */
+  description: string;
+};
+
+const RE_FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const RE_ENTRY = /^(["']?)([^"':]+)\1\s*:\s*(["']?)(\S+?)\3$/;
+const BUMP_KINDS = ["major", "minor", "patch"];
+// The tags of the version bumps from the changesets, which decide the sections in the release note
+const BUMP_KIND_TO_TAG: Record<VersionBumpKind, string> = {
+  major: "BREAKING",
+  minor: "feat",
+  patch: "fix",
+};
+
+/** Parses the text of the changeset file. Throws when the text is malformed. */
+export function parseChangeset(text: string, path: string): Changeset {
+  const match = RE_FRONT_MATTER.exec(text);
+  if (!match) {
+    throw new InvalidChangesetError(path, "The front matter is not found.");
+  }
+  const bumps: Record<string, VersionBumpKind> = {};
+  for (let line of match[1].split(/\r?\n/)) {
+    line = line.trim();
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+    const entry = RE_ENTRY.exec(line);
+    if (!entry) {
+      throw new InvalidChangesetError(path, `Invalid entry: ${line}`);
+    }
+    const [, , name, , kind] = entry;
+    if (!BUMP_KINDS.includes(kind)) {
+      throw new InvalidChangesetError(
+        path,
+        `The bump level of ${name.trim()} must be one of "major", "minor" or "patch", but got "${kind}".`,
+      );
+    }
+    bumps[name.trim()] = kind as VersionBumpKind;
+  }
+  if (Object.keys(bumps).length === 0) {
+    throw new InvalidChangesetError(path, "No module is listed.");
+  }
+  const description = text.slice(match[0].length).trim();
+  if (description === "") {
+    throw new InvalidChangesetError(path, "The description is empty.");
+  }
+  return { path, bumps, description };
+}
+
+/** Creates the text of the changeset file. */
+export function formatChangeset(
+  bumps: Record<string, VersionBumpKind>,
+  description: string,
+): string {
+  const entries = Object.entries(bumps)
+    .map(([name, kind]) => `"${name}": ${kind}\n`)
+    .join("");
+  return `---\n${entries}---\n\n${description.trim()}\n`;
+}
+
+/**
+ * Reads the changeset files (`*.md` except `README.md`) in the directory.
+ * Returns an empty array if the directory doesn't exist.
+ */
+export async function readChangesets(
+  dir: string,
+  reader: FileReader = fsReader,
+): Promise<Changeset[]> {
+  const changesets = [];
+  for (const path of await reader.listFiles(dir)) {
+    const name = basename(path);
+    if (!name.endsWith(".md") || name.toLowerCase() === "readme.md") {
+      continue;
+    }
+    const text = await reader.readTextFile(path);
+    if (text !== undefined) {
+      changesets.push(parseChangeset(text, path));
+    }
+  }
+  return changesets;
+}
+
+/**
+ * Converts the changeset to the version bumps. The given commit, usually the
+ * one which added the changeset file, is attached to the version bumps, with
+ * the first line of the description as the subject.
+ */
+export function getChangesetVersionBumps(
+  changeset: Changeset,
+  commit: Pick<Commit, "hash" | "author">,
+): VersionBump[] {
+  const [subject, ...body] = changeset.description.split("\n");
+  return Object.entries(changeset.bumps).map(([module, version]) => ({
+    module,
+    tag: BUMP_KIND_TO_TAG[version],
+    version,
+    commit: { ...commit, subject, body: body.join("\n").trim() },
+  }));
+}
+
+/**
+ * Creates the file name of the new changeset from the first line of the
+ * description and the date, e.g. `add-the-streaming-api-lvxbq3k0.md`.
+ */
+export function createChangesetFileName(
+  description: string,
+  date: Date = new Date(),
+): string {
+  const slug = description.split("\n")[0].toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 40)
+    .replace(/^-+|-+$/g, "");
+  const suffix = date.getTime().toString(36);
+  return slug ? `${slug}-${suffix}.md` : `${suffix}.md`;
+}
+
+/** The options of {@linkcode addChangeset} */
+export type AddChangesetOptions = {
+  /** The bump levels keyed by the module names. The names can omit the scope e.g. `foo` for `@scope/foo`. */
+  bumps: Record<string, VersionBumpKind>;
+  /** The description of the change */
+  description: string;
+  /** The root directory of the workspace. The default is `.` */
+  root?: string;
+  /** The directory of the changeset files relative to the root. The default is {@linkcode DEFAULT_CHANGESET_DIR} */
+  dir?: string;
+  /** The date used for the file name. The default is now. */
+  date?: Date;
+};
+
+/**
+ * Writes a new changeset file and returns its path. Throws when a module is
+ * not found in the workspace, or no module or description is given.
+ */
+export async function addChangeset(
+  {
+    bumps,
+    description,
+    root = ".",
+    dir = DEFAULT_CHANGESET_DIR,
+    date = new Date(),
+  }: AddChangesetOptions,
+): Promise<string> {
+  const path = join(root, dir, createChangesetFileName(description, date));
+  if (Object.keys(bumps).length === 0) {
+    throw new InvalidChangesetError(path, "No module is listed.");
+  }
+  const [_, modules] = await getWorkspaceModules(root);
+  const resolved: Record<string, VersionBumpKind> = {};
+  for (const [name, kind] of Object.entries(bumps)) {
+    const module = getModule(name, modules);
+    if (!module) {
+      throw new InvalidChangesetError(path, `Unknown module: ${name}.`);
+    }
+    resolved[module.name] = kind;
+  }
+  const text = formatChangeset(resolved, description);
+  // Validates the text in the same way as reading it
+  parseChangeset(text, path);
+  await ensureDir(join(root, dir));
+  await Deno.writeTextFile(path, text);
+  return path;
+}
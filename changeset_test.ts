@@ -0,0 +1,187 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { copy } from "@std/fs/copy";
+import { join } from "@std/path/join";
+import {
+  addChangeset,
+  createChangesetFileName,
+  formatChangeset,
+  getChangesetVersionBumps,
+  parseChangeset,
+  readChangesets,
+} from "./changeset.ts";
+import { InvalidChangesetError } from "./errors.ts";
+import type { FileReader } from "./util.ts";
+
+Deno.test("parseChangeset()", () => {
+  assertEquals(
+    parseChangeset(
+      `---
+"@scope/foo": minor
+bar: 'patch'
+---
+
+Add the streaming API.
+
+The details of the change.
+`,
+      ".changes/a.md",
+    ),
+    {
+      path: ".changes/a.md",
+      bumps: { "@scope/foo": "minor", bar: "patch" },
+      description: "Add the streaming API.\n\nThe details of the change.",
+    },
+  );
+});
+
+Deno.test("parseChangeset() throws when the changeset is malformed", () => {
+  assertThrows(
+    () => parseChangeset("Add the streaming API.", ".changes/a.md"),
+    InvalidChangesetError,
+    "Invalid changeset in .changes/a.md: The front matter is not found.",
+  );
+  assertThrows(
+    () => parseChangeset(`---\n"@scope/foo" minor\n---\n\ntext`, "a.md"),
+    InvalidChangesetError,
+    `Invalid entry: "@scope/foo" minor`,
+  );
+  assertThrows(
+    () => parseChangeset(`---\n"@scope/foo": huge\n---\n\ntext`, "a.md"),
+    InvalidChangesetError,
+    `The bump level of @scope/foo must be one of "major", "minor" or "patch", but got "huge".`,
+  );
+  assertThrows(
+    () => parseChangeset(`---\n\n---\n\ntext`, "a.md"),
+    InvalidChangesetError,
+    "No module is listed.",
+  );
+  assertThrows(
+    () => parseChangeset(`---\n"@scope/foo": patch\n---\n`, "a.md"),
+    InvalidChangesetError,
+    "The description is empty.",
+  );
+});
+
+Deno.test("formatChangeset()", () => {
+  const text = formatChangeset(
+    { "@scope/foo": "major", "@scope/bar": "patch" },
+    "Remove the deprecated API.\n",
+  );
+  assertEquals(
+    text,
+    `---
+"@scope/foo": major
+"@scope/bar": patch
+---
+
+Remove the deprecated API.
+`,
+  );
+  assertEquals(parseChangeset(text, "a.md").bumps, {
+    "@scope/foo": "major",
+    "@scope/bar": "patch",
+  });
+});
+
+Deno.test("readChangesets()", async () => {
+  const files: Record<string, string> = {
+    ".changes/README.md": "# Changesets",
+    ".changes/a.md": `---\nfoo: minor\n---\n\nAdd a feature.`,
+    ".changes/config.json": "{}",
+  };
+  const reader: FileReader = {
+    readTextFile: (path) => Promise.resolve(files[path]),
+    expandGlob: () => Promise.resolve([]),
+    listFiles: () => Promise.resolve(Object.keys(files).sort()),
+  };
+  assertEquals(await readChangesets(".changes", reader), [
+    {
+      path: ".changes/a.md",
+      bumps: { foo: "minor" },
+      description: "Add a feature.",
+    },
+  ]);
+  assertEquals(await readChangesets("testdata/none"), []);
+});
+
+Deno.test("getChangesetVersionBumps()", () => {
+  const changeset = {
+    path: ".changes/a.md",
+    bumps: { foo: "major" as const, bar: "patch" as const },
+    description: "Remove the deprecated API.\n\nUse the new API instead.",
+  };
+  const commit = {
+    hash: "0123456789abcdef",
+    author: { name: "Alice", email: "alice@example.com" },
+  };
+  assertEquals(getChangesetVersionBumps(changeset, commit), [
+    {
+      module: "foo",
+      tag: "BREAKING",
+      version: "major",
+      commit: {
+        ...commit,
+        subject: "Remove the deprecated API.",
+        body: "Use the new API instead.",
+      },
+    },
+    {
+      module: "bar",
+      tag: "fix",
+      version: "patch",
+      commit: {
+        ...commit,
+        subject: "Remove the deprecated API.",
+        body: "Use the new API instead.",
+      },
+    },
+  ]);
+});
+
+Deno.test("createChangesetFileName()", () => {
+  const date = new Date(1714521600000);
+  assertEquals(
+    createChangesetFileName("Add the `stream()` API!\nDetails", date),
+    "add-the-stream-api-lvn1w5c0.md",
+  );
+  assertEquals(createChangesetFileName("!!!", date), "lvn1w5c0.md");
+});
+
+Deno.test("addChangeset() writes the changeset file", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  const path = await addChangeset({
+    root: dir,
+    bumps: { foo: "minor", "@scope/bar": "patch" },
+    description: "Add a feature",
+    date: new Date(1714521600000),
+  });
+  assertEquals(path, join(dir, ".changes/add-a-feature-lvn1w5c0.md"));
+  assertEquals(
+    await Deno.readTextFile(path),
+    `---
+"@scope/foo": minor
+"@scope/bar": patch
+---
+
+Add a feature
+`,
+  );
+  await assertRejects(
+    () =>
+      addChangeset({
+        root: dir,
+        bumps: { unknown: "minor" },
+        description: "Add a feature",
+      }),
+    InvalidChangesetError,
+    "Unknown module: unknown.",
+  );
+  await assertRejects(
+    () => addChangeset({ root: dir, bumps: {}, description: "Add a feature" }),
+    InvalidChangesetError,
+    "No module is listed.",
+  );
+});
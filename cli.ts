@@ -1,7 +1,26 @@
 // Copyright 2024 the Deno authors. All rights reserved. MIT license.
 
 import { parseArgs } from "@std/cli/parse-args";
-import { bumpWorkspaces } from "./mod.ts";
+import { red } from "@std/fmt/colors";
+import {
+  addChangeset,
+  type AddChangesetOptions,
+  type BumpWorkspaceOptions,
+  bumpWorkspaces,
+  BumpWorkspacesError,
+  type BumpWorkspacesResult,
+  type Diagnostic,
+  PROVIDER_NAMES,
+  type ProviderName,
+  releaseWorkspaces,
+  type ReleaseWorkspacesOptions,
+  silentLogger,
+} from "./mod.ts";
+import {
+  getWorkspaceModules,
+  RE_PRERELEASE_ID,
+  type VersionBumpKind,
+} from "./util.ts";
 
 /**
  * The CLI entrypoint of the package. You can directly perform the version bump behavior from CLI:
@@ -16,22 +35,638 @@ import { bumpWorkspaces } from "./mod.ts";
  * deno run -A jsr:@deno/bump-workspaces/cli --dry-run
  * ```
  *
+ * `--dry-run=git` performs the file edits, but skips git and network operations:
+ *
+ * ```sh
+ * deno run -A jsr:@deno/bump-workspaces/cli --dry-run=git
+ * ```
+ *
  * You can specify import map path by `--import-map` option (Default is deno.json(c) at the root):
  *
  * ```sh
  * deno run -A jsr:@deno/bump-workspaces/cli --import-map ./import_map.json
  * ```
  *
+ * `--json` prints the result as a JSON document, which is useful in CI:
+ *
+ * ```sh
+ * deno run -A jsr:@deno/bump-workspaces/cli --dry-run --json > plan.json
+ * ```
+ *
+ * After the release pull request is merged, `release` subcommand creates the
+ * git tags (e.g. `@scope/foo@1.2.3`) and the GitHub releases of the updated
+ * packages (`--provider gitlab` or `--provider gitea` for GitLab or Gitea):
+ *
+ * ```sh
+ * deno run -A jsr:@deno/bump-workspaces/cli release
+ * ```
+ *
+ * See `--help` for all the available options.
+ *
  * @module
  */
 
-if (import.meta.main) {
-  const args = parseArgs(Deno.args, {
-    string: ["import-map"],
-    boolean: ["dry-run"],
+const HELP =
+  `Upgrade the versions of the packages in the workspace using Conventional Commits.
+
+Usage:
+  deno run -A jsr:@deno/bump-workspaces/cli [options]
+
+Options:
+  --start <rev>              The git tag or commit hash to start from. (Default: the latest tag)
+  --per-package-start        Start from the latest tag (or the last version change) of each package
+                             instead of --start.
+  --base <branch>            The base branch name to compare commits. (Default: the current branch)
+  --root <dir>               The root directory of the workspace. (Default: .)
+  --import-map <path>        The import map path. (Default: deno.json(c) at the root)
+  --release-note-path <path> The path to release note markdown file. (Default: Releases.md)
+  --package-changelogs       Write CHANGELOG.md in each updated package directory.
+  --no-root-release-note     Don't write the release note at the root. Use with --package-changelogs.
+  --group-release-notes      Group the commits by the change types (Features, Bug fixes, etc.) in the release notes.
+  --release-note-links       Link the pull requests and the commits in the release notes. Requires the repository.
+  --release-note-contributors
+                             Add the list of the contributors to the release note.
+  --release-branch <name>    The stable name of the release branch. The open pull request of the branch
+                             is updated instead of opening a new one. (Default: a new branch for each run)
+  --preid <id>               Enter or continue the prerelease channel, e.g. "rc" makes 1.3.0-rc.0 from 1.2.3.
+  --graduate[=<names>]       Promote the prerelease versions to the stable versions, e.g. 1.3.0-rc.2 to 1.3.0.
+                             All the packages in prerelease without names, or the comma separated packages.
+  --exclude <pattern>        Exclude the packages from the version bumps, e.g. "@scope/internal-*".
+                             Can be repeated or comma separated.
+  --changeset-dir <dir>      The directory of the changeset files relative to the root. (Default: .changes)
+  --changeset-mode <mode>    "merge" adds the bumps of the changesets to the ones of the commits, and "replace"
+                             ignores the commit messages. (Default: merge)
+  --set <name>=<version>     Release the package as the given version regardless of the commits,
+                             e.g. --set @scope/crypto=1.0.0. Can be repeated.
+  --pr-label <name>          Add the label to the pull request. Can be repeated or comma separated.
+  --pr-reviewer <user>       Request the review of the user. Can be repeated or comma separated.
+  --pr-team-reviewer <team>  Request the review of the team (GitHub and Gitea only). Can be repeated or comma separated.
+  --pr-assignee <user>       Assign the user to the pull request. Can be repeated or comma separated.
+  --pr-milestone <title>     Set the open milestone of the pull request.
+  --no-pr-draft              Open the pull request as ready for review instead of a draft.
+  --git-user-name <name>     The git user name for the commit. (Default: $GIT_USER_NAME)
+  --git-user-email <email>   The git user email for the commit. (Default: $GIT_USER_EMAIL)
+  --provider <name>          The code hosting service: github, gitlab or gitea. (Default: github)
+  --provider-url <url>       The url of the self-hosted instance of the provider.
+                             (Default: $GITHUB_SERVER_URL, $CI_SERVER_URL for gitlab, or the public instance)
+  --github-token <token>     The token of the provider. (Default: $GITHUB_TOKEN, $GITLAB_TOKEN or $GITEA_TOKEN)
+  --github-repo <owner/repo> The repository. (Default: $GITHUB_REPOSITORY, $CI_PROJECT_PATH for gitlab)
+  --dry-run[=git]            Doesn't perform file edits, git and network operations.
+                             With "git", performs file edits, but skips git and network operations.
+  --json, --output=json      Print the result as a JSON document instead of the human readable output.
+  -h, --help                 Show this help.
+
+Commands:
+  release                    Create the git tags and the releases of the packages updated in the
+                             merged release pull request. See "release --help".
+  change                     Create a changeset file which describes the change and the bumps of the
+                             packages. See "change --help".
+`;
+
+const CHANGE_HELP =
+  `Create a changeset file which describes the change and the bumps of the packages.
+
+Usage:
+  deno run -A jsr:@deno/bump-workspaces/cli change [options]
+
+Options:
+  --package <name>=<level>   The package and its bump level: major, minor or patch. Can be repeated.
+  --message <text>           The description of the change. The first line is used in the release note.
+  --root <dir>               The root directory of the workspace. (Default: .)
+  --changeset-dir <dir>      The directory of the changeset files relative to the root. (Default: .changes)
+  -h, --help                 Show this help.
+
+Without --package or --message, the missing values are asked interactively.
+`;
+
+const RELEASE_HELP =
+  `Create the git tags and the releases of the packages updated in the merged release pull request.
+
+Usage:
+  deno run -A jsr:@deno/bump-workspaces/cli release [options]
+
+Options:
+  --ref <rev>                The merge commit of the release pull request. (Default: HEAD)
+  --root <dir>               The root directory of the workspace. (Default: .)
+  --tag-format <format>      The format of the git tags. (Default: {{name}}@{{version}})
+  --release-note-path <path> The path to release note markdown file. (Default: Releases.md)
+  --provider <name>          The code hosting service: github, gitlab or gitea. (Default: github)
+  --provider-url <url>       The url of the self-hosted instance of the provider.
+                             (Default: $GITHUB_SERVER_URL, $CI_SERVER_URL for gitlab, or the public instance)
+  --github-token <token>     The token of the provider. (Default: $GITHUB_TOKEN, $GITLAB_TOKEN or $GITEA_TOKEN)
+  --github-repo <owner/repo> The repository. (Default: $GITHUB_REPOSITORY, $CI_PROJECT_PATH for gitlab)
+  --dry-run                  Doesn't create the tags and the releases.
+  --json, --output=json      Print the result as a JSON document instead of the human readable output.
+  -h, --help                 Show this help.
+`;
+
+const STRING_OPTIONS = {
+  "start": "start",
+  "base": "base",
+  "root": "root",
+  "import-map": "importMap",
+  "release-note-path": "releaseNotePath",
+  "release-branch": "releaseBranch",
+  "preid": "prerelease",
+  "git-user-name": "gitUserName",
+  "git-user-email": "gitUserEmail",
+  "github-token": "githubToken",
+  "github-repo": "githubRepo",
+  "provider-url": "providerUrl",
+  "pr-milestone": "prMilestone",
+  "changeset-dir": "changesetDir",
+} as const;
+
+/** The options which can be repeated or given as comma separated values */
+const LIST_OPTIONS = {
+  "pr-label": "prLabels",
+  "pr-reviewer": "prReviewers",
+  "pr-team-reviewer": "prTeamReviewers",
+  "pr-assignee": "prAssignees",
+  "exclude": "exclude",
+} as const;
+
+const RELEASE_STRING_OPTIONS = {
+  "ref": "ref",
+  "root": "root",
+  "tag-format": "tagFormat",
+  "release-note-path": "releaseNotePath",
+  "github-token": "githubToken",
+  "github-repo": "githubRepo",
+  "provider-url": "providerUrl",
+} as const;
+
+/** The parsed command line arguments. */
+export type CliArgs =
+  & {
+    /** True if the help is requested */
+    help: boolean;
+    /** The output format */
+    output: "human" | "json";
+  }
+  & (
+    | {
+      command: "bump";
+      /** The options of {@linkcode bumpWorkspaces} */
+      options: BumpWorkspaceOptions;
+    }
+    | {
+      command: "release";
+      /** The options of {@linkcode releaseWorkspaces} */
+      options: ReleaseWorkspacesOptions;
+    }
+    | {
+      command: "change";
+      /** The options of {@linkcode addChangeset}. The missing bumps and description are asked interactively. */
+      options: Partial<AddChangesetOptions>;
+    }
+  );
+
+function parseOutput(json: boolean, output: string | undefined) {
+  output = json ? "json" : output ?? "human";
+  if (output !== "human" && output !== "json") {
+    throw new Error(
+      `Invalid value for --output: ${output} (expected "human" or "json")`,
+    );
+  }
+  return output;
+}
+
+function parseProvider(provider: string | undefined) {
+  if (provider === undefined) {
+    return undefined;
+  }
+  if (!(PROVIDER_NAMES as readonly string[]).includes(provider)) {
+    throw new Error(
+      `Invalid value for --provider: ${provider} (expected ${
+        PROVIDER_NAMES.map((name) => `"${name}"`).join(", ")
+      })`,
+    );
+  }
+  return provider as ProviderName;
+}
+
+function parseStringOptions<K extends string, V extends string>(
+  parsed: Partial<Record<K, string>>,
+  stringOptions: Record<K, V>,
+): Partial<Record<V, string>> {
+  const options: Partial<Record<V, string>> = {};
+  for (const [flag, key] of Object.entries(stringOptions) as [K, V][]) {
+    const value = parsed[flag];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === "") {
+      throw new Error(`Missing value for --${flag}`);
+    }
+    options[key] = value;
+  }
+  return options;
+}
+
+function parseListOptions<K extends string, V extends string>(
+  parsed: Partial<Record<K, unknown>>,
+  listOptions: Record<K, V>,
+): Partial<Record<V, string[]>> {
+  const options: Partial<Record<V, string[]>> = {};
+  for (const [flag, key] of Object.entries(listOptions) as [K, V][]) {
+    const value = parsed[flag];
+    if (value === undefined) {
+      continue;
+    }
+    const values = [value].flat().flatMap((v) => String(v).split(","))
+      .map((v) => v.trim());
+    if (values.some((v) => v === "")) {
+      throw new Error(`Missing value for --${flag}`);
+    }
+    options[key] = values;
+  }
+  return options;
+}
+
+/** Parses the repeated `--<flag> <name>=<value>` into the map from the module names to the values */
+function parseModuleValues(
+  flag: string,
+  value: unknown,
+  expected: string,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const item of [value].flat().map(String)) {
+    // The module name can start with `@`, so splits at the last `=`
+    const index = item.lastIndexOf("=");
+    const name = item.slice(0, index).trim();
+    const value = item.slice(index + 1).trim();
+    if (index === -1 || name === "" || value === "") {
+      throw new Error(
+        `Invalid value for --${flag}: ${item} (expected ${expected})`,
+      );
+    }
+    values[name] = value;
+  }
+  return values;
+}
+
+function parseChangeCliArgs(args: string[]): CliArgs {
+  const unknowns: string[] = [];
+  const parsed = parseArgs(args, {
+    string: ["package", "message", "root", "changeset-dir"],
+    collect: ["package"],
+    boolean: ["help"],
+    alias: { h: "help" },
+    unknown: (arg: string) => {
+      unknowns.push(arg);
+      return false;
+    },
+  });
+  if (unknowns.length > 0) {
+    throw new Error(`Unknown argument for change: ${unknowns.join(", ")}`);
+  }
+  const options: Partial<AddChangesetOptions> = {};
+  if (parsed.package !== undefined && parsed.package.length > 0) {
+    const bumps = parseModuleValues(
+      "package",
+      parsed.package,
+      "<name>=<level>",
+    );
+    for (const [name, level] of Object.entries(bumps)) {
+      if (!isVersionBumpKind(level)) {
+        throw new Error(
+          `Invalid value for --package: ${name}=${level} (expected major, minor or patch)`,
+        );
+      }
+    }
+    options.bumps = bumps as Record<string, VersionBumpKind>;
+  }
+  if (parsed.message !== undefined) {
+    options.description = parsed.message;
+  }
+  if (parsed.root !== undefined) {
+    options.root = parsed.root;
+  }
+  if (parsed["changeset-dir"] !== undefined) {
+    options.dir = parsed["changeset-dir"];
+  }
+  return {
+    command: "change",
+    help: !!parsed.help,
+    output: "human",
+    options,
+  };
+}
+
+function isVersionBumpKind(level: string): level is VersionBumpKind {
+  return ["major", "minor", "patch"].includes(level);
+}
+
+function parseReleaseCliArgs(args: string[]): CliArgs {
+  const unknowns: string[] = [];
+  const parsed = parseArgs(args, {
+    string: [...Object.keys(RELEASE_STRING_OPTIONS), "provider", "output"],
+    boolean: ["help", "json", "dry-run"],
+    alias: { h: "help" },
+    unknown: (arg: string) => {
+      unknowns.push(arg);
+      return false;
+    },
   });
-  await bumpWorkspaces({
-    dryRun: args["dry-run"],
-    importMap: args["import-map"],
+  if (unknowns.length > 0) {
+    throw new Error(`Unknown argument for release: ${unknowns.join(", ")}`);
+  }
+  const options: ReleaseWorkspacesOptions = {
+    ...parseStringOptions(parsed, RELEASE_STRING_OPTIONS),
+    dryRun: parsed["dry-run"],
+  };
+  const provider = parseProvider(parsed.provider);
+  if (provider) {
+    options.provider = provider;
+  }
+  return {
+    command: "release",
+    help: !!parsed.help,
+    output: parseOutput(parsed.json, parsed.output),
+    options,
+  };
+}
+
+/**
+ * Parses the command line arguments into the options of {@linkcode bumpWorkspaces},
+ * {@linkcode releaseWorkspaces} if the first argument is `release`, or
+ * {@linkcode addChangeset} if the first argument is `change`.
+ * Throws when the arguments are invalid.
+ */
+export function parseCliArgs(args: string[]): CliArgs {
+  if (args[0] === "release") {
+    return parseReleaseCliArgs(args.slice(1));
+  }
+  if (args[0] === "change") {
+    return parseChangeCliArgs(args.slice(1));
+  }
+  const unknowns: string[] = [];
+  const parsed = parseArgs(args, {
+    // dry-run is parsed as string to accept --dry-run=git
+    string: [
+      ...Object.keys(STRING_OPTIONS),
+      ...Object.keys(LIST_OPTIONS),
+      "dry-run",
+      "graduate",
+      "set",
+      "changeset-mode",
+      "provider",
+      "output",
+    ],
+    collect: [...Object.keys(LIST_OPTIONS), "set"],
+    boolean: [
+      "help",
+      "json",
+      "package-changelogs",
+      "root-release-note",
+      "group-release-notes",
+      "release-note-links",
+      "release-note-contributors",
+      "per-package-start",
+      "pr-draft",
+    ],
+    negatable: ["root-release-note", "pr-draft"],
+    default: { "root-release-note": true, "pr-draft": true },
+    alias: { h: "help" },
+    unknown: (arg: string) => {
+      unknowns.push(arg);
+      return false;
+    },
   });
+  if (unknowns.length > 0) {
+    throw new Error(`Unknown argument: ${unknowns.join(", ")}`);
+  }
+  const output = parseOutput(parsed.json, parsed.output);
+  const options: BumpWorkspaceOptions = {
+    ...parseStringOptions(parsed, STRING_OPTIONS),
+    ...parseListOptions(parsed, LIST_OPTIONS),
+  };
+  const provider = parseProvider(parsed.provider);
+  if (provider) {
+    options.provider = provider;
+  }
+  if (
+    options.prerelease !== undefined &&
+    !RE_PRERELEASE_ID.test(options.prerelease)
+  ) {
+    throw new Error(
+      `Invalid value for --preid: ${options.prerelease} (expected alphanumerics and hyphens)`,
+    );
+  }
+  const changesetMode = parsed["changeset-mode"];
+  if (changesetMode !== undefined) {
+    if (changesetMode !== "merge" && changesetMode !== "replace") {
+      throw new Error(
+        `Invalid value for --changeset-mode: ${changesetMode} (expected "merge" or "replace")`,
+      );
+    }
+    options.changesetMode = changesetMode;
+  }
+  const graduate = parsed.graduate;
+  if (graduate !== undefined) {
+    options.graduate = graduate === ""
+      ? true
+      : graduate.split(",").map((name: string) => name.trim());
+  }
+  if (parsed.set !== undefined) {
+    options.versionOverrides = parseModuleValues(
+      "set",
+      parsed.set,
+      "<name>=<version>",
+    );
+  }
+  // Only sets the flags given explicitly, so that the config is respected otherwise
+  if (parsed["package-changelogs"]) {
+    options.packageChangelogs = true;
+  }
+  if (!parsed["root-release-note"]) {
+    options.rootReleaseNote = false;
+  }
+  if (parsed["group-release-notes"]) {
+    options.releaseNoteSections = true;
+  }
+  if (parsed["release-note-links"]) {
+    options.releaseNoteLinks = true;
+  }
+  if (parsed["release-note-contributors"]) {
+    options.releaseNoteContributors = true;
+  }
+  if (parsed["per-package-start"]) {
+    options.perPackageStart = true;
+  }
+  if (!parsed["pr-draft"]) {
+    options.prDraft = false;
+  }
+  const dryRun = parsed["dry-run"];
+  if (dryRun === undefined || dryRun === "false") {
+    options.dryRun = false;
+  } else if (dryRun === "" || dryRun === "true") {
+    options.dryRun = true;
+  } else if (dryRun === "git") {
+    options.dryRun = "git";
+  } else {
+    throw new Error(
+      `Invalid value for --dry-run: ${dryRun} (expected "git" or no value)`,
+    );
+  }
+  return { command: "bump", help: !!parsed.help, output, options };
+}
+
+/** The version of the JSON output format. This is incremented on breaking changes of the format. */
+export const JSON_OUTPUT_VERSION = 1;
+
+/** The JSON document printed with `--json` option. */
+export type JsonOutput = {
+  /** The version of the format. See {@linkcode JSON_OUTPUT_VERSION} */
+  version: number;
+  /** True if any module is bumped */
+  bumped: boolean;
+  /** The updated modules */
+  modules: {
+    name: string;
+    from: string;
+    to: string;
+    diff: string;
+    path: string;
+    /** The commits which drove the update */
+    commits: { hash: string; subject: string; tag: string }[];
+  }[];
+  /** The diagnostics grouped by the type */
+  diagnostics: Record<
+    Diagnostic["type"],
+    { hash: string; subject: string; reason: string }[]
+  >;
+  releaseNote: string | null;
+  branchName: string | null;
+  pullRequest: { url: string; number: number } | null;
+  /** The error message of applying the metadata to the pull request */
+  pullRequestMetadataError: string | null;
+};
+
+/** Creates the JSON document of the result of {@linkcode bumpWorkspaces}, which is printed with `--json` option. */
+export function createJsonOutput(result: BumpWorkspacesResult): JsonOutput {
+  const diagnosticsOf = (type: Diagnostic["type"]) =>
+    result.diagnostics
+      .filter((d) => d.type === type)
+      .map((d) => ({
+        hash: d.commit.hash,
+        subject: d.commit.subject,
+        reason: d.reason,
+      }));
+  return {
+    version: JSON_OUTPUT_VERSION,
+    bumped: result.bumped,
+    modules: result.updates.map((u) => ({
+      name: u.name,
+      from: u.from,
+      to: u.to,
+      diff: u.diff,
+      path: u.path,
+      commits: u.summary.commits.map((c) => ({
+        hash: c.hash,
+        subject: c.subject,
+        tag: c.tag,
+      })),
+    })),
+    diagnostics: {
+      unknown_commit: diagnosticsOf("unknown_commit"),
+      unknown_range_commit: diagnosticsOf("unknown_range_commit"),
+      missing_range: diagnosticsOf("missing_range"),
+      skipped_commit: diagnosticsOf("skipped_commit"),
+      excluded_module_commit: diagnosticsOf("excluded_module_commit"),
+    },
+    releaseNote: result.releaseNote ?? null,
+    branchName: result.branchName ?? null,
+    pullRequest: result.pullRequest ?? null,
+    pullRequestMetadataError: result.pullRequestMetadataError?.message ?? null,
+  };
+}
+
+/** Asks the bumps and the description of the changeset which are not given by the flags */
+async function promptChangeset(
+  options: Partial<AddChangesetOptions>,
+): Promise<AddChangesetOptions> {
+  let { bumps, description } = options;
+  if (bumps === undefined) {
+    const [_, modules] = await getWorkspaceModules(options.root ?? ".");
+    console.log(`Packages: ${modules.map((m) => m.name).join(", ")}`);
+    const names = prompt("Packages to bump (comma separated):") ?? "";
+    bumps = {};
+    for (const name of names.split(",").map((n) => n.trim()).filter(Boolean)) {
+      let level: string | null;
+      do {
+        level = prompt(
+          `Bump level of ${name} (major, minor or patch):`,
+          "patch",
+        );
+      } while (level !== null && !isVersionBumpKind(level));
+      bumps[name] = level ?? "patch";
+    }
+  }
+  description ??= prompt("Description of the change:") ?? "";
+  return { ...options, bumps, description };
+}
+
+if (import.meta.main) {
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(Deno.args);
+  } catch (e) {
+    console.error(`${red("error")}: ${(e as Error).message}`);
+    console.error("See --help for the available options.");
+    Deno.exit(1);
+  }
+  if (args.help) {
+    console.log(
+      args.command === "release"
+        ? RELEASE_HELP
+        : args.command === "change"
+        ? CHANGE_HELP
+        : HELP,
+    );
+    Deno.exit(0);
+  }
+  const json = args.output === "json";
+  const logger = json ? silentLogger : console;
+  try {
+    if (args.command === "change") {
+      const path = await addChangeset(await promptChangeset(args.options));
+      console.log(`Created the changeset: ${path}`);
+    } else if (args.command === "release") {
+      const { releases } = await releaseWorkspaces({
+        ...args.options,
+        logger,
+      });
+      if (json) {
+        console.log(JSON.stringify(
+          { version: JSON_OUTPUT_VERSION, releases },
+          null,
+          2,
+        ));
+      }
+    } else {
+      const result = await bumpWorkspaces({ ...args.options, logger });
+      if (json) {
+        console.log(JSON.stringify(createJsonOutput(result), null, 2));
+      }
+    }
+  } catch (e) {
+    if (e instanceof BumpWorkspacesError) {
+      if (json) {
+        console.log(JSON.stringify(
+          {
+            version: JSON_OUTPUT_VERSION,
+            error: { name: e.name, message: e.message },
+          },
+          null,
+          2,
+        ));
+      } else {
+        console.error(`${red("error")}: ${e.message}`);
+      }
+      Deno.exit(1);
+    }
+    throw e;
+  }
 }
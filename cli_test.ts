@@ -0,0 +1,270 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { assertSnapshot } from "@std/testing/snapshot";
+import { createJsonOutput, parseCliArgs } from "./cli.ts";
+
+Deno.test("parseCliArgs()", () => {
+  assertEquals(parseCliArgs([]).options, { dryRun: false });
+  assertEquals(parseCliArgs(["--dry-run"]).options, { dryRun: true });
+  assertEquals(parseCliArgs(["--dry-run=git"]).options, { dryRun: "git" });
+  assertEquals(
+    parseCliArgs([
+      "--start",
+      "0.1.0",
+      "--base",
+      "main",
+      "--root",
+      "./workspace",
+      "--import-map",
+      "./import_map.json",
+      "--release-note-path",
+      "CHANGELOG.md",
+      "--git-user-name",
+      "denobot",
+      "--git-user-email",
+      "denobot@example.com",
+      "--github-token",
+      "1234567890",
+      "--github-repo",
+      "denoland/deno_std",
+      "--dry-run",
+    ]).options,
+    {
+      start: "0.1.0",
+      base: "main",
+      root: "./workspace",
+      importMap: "./import_map.json",
+      releaseNotePath: "CHANGELOG.md",
+      gitUserName: "denobot",
+      gitUserEmail: "denobot@example.com",
+      githubToken: "1234567890",
+      githubRepo: "denoland/deno_std",
+      dryRun: true,
+    },
+  );
+  assertEquals(
+    parseCliArgs(["--package-changelogs", "--no-root-release-note"]).options,
+    { packageChangelogs: true, rootReleaseNote: false, dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs(["--group-release-notes"]).options,
+    { releaseNoteSections: true, dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs(["--release-note-links", "--release-note-contributors"])
+      .options,
+    { releaseNoteLinks: true, releaseNoteContributors: true, dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs(["--per-package-start"]).options,
+    { perPackageStart: true, dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs(["--preid", "rc", "--graduate=@scope/foo, @scope/bar"])
+      .options,
+    {
+      prerelease: "rc",
+      graduate: ["@scope/foo", "@scope/bar"],
+      dryRun: false,
+    },
+  );
+  assertEquals(
+    parseCliArgs(["--graduate"]).options,
+    { graduate: true, dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs([
+      "--changeset-dir",
+      "changes",
+      "--changeset-mode",
+      "replace",
+    ]).options,
+    { changesetDir: "changes", changesetMode: "replace", dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs([
+      "change",
+      "--package",
+      "@scope/foo=minor",
+      "--package",
+      "bar=patch",
+      "--message",
+      "Add a feature",
+    ]),
+    {
+      command: "change",
+      help: false,
+      output: "human",
+      options: {
+        bumps: { "@scope/foo": "minor", bar: "patch" },
+        description: "Add a feature",
+      },
+    },
+  );
+  assertEquals(
+    parseCliArgs(["change", "--root", "packages", "--changeset-dir", "c"]),
+    {
+      command: "change",
+      help: false,
+      output: "human",
+      options: { root: "packages", dir: "c" },
+    },
+  );
+  assertEquals(
+    parseCliArgs(["--set", "@scope/crypto=1.0.0", "--set", "foo=0.2.0"])
+      .options,
+    {
+      versionOverrides: { "@scope/crypto": "1.0.0", foo: "0.2.0" },
+      dryRun: false,
+    },
+  );
+  assertEquals(
+    parseCliArgs(["--release-branch", "release"]).options,
+    { releaseBranch: "release", dryRun: false },
+  );
+  assertEquals(
+    parseCliArgs([
+      "--pr-label",
+      "release",
+      "--pr-label",
+      "bot",
+      "--pr-reviewer",
+      "alice,bob",
+      "--pr-milestone",
+      "v1",
+      "--exclude",
+      "@scope/internal-*",
+      "--no-pr-draft",
+    ]).options,
+    {
+      prLabels: ["release", "bot"],
+      prReviewers: ["alice", "bob"],
+      prMilestone: "v1",
+      exclude: ["@scope/internal-*"],
+      prDraft: false,
+      dryRun: false,
+    },
+  );
+  assertEquals(parseCliArgs(["--help"]).help, true);
+  assertEquals(parseCliArgs(["-h"]).help, true);
+  assertEquals(parseCliArgs([]).output, "human");
+  assertEquals(parseCliArgs(["--json"]).output, "json");
+  assertEquals(parseCliArgs(["--output=json"]).output, "json");
+});
+
+Deno.test("parseCliArgs() parses release subcommand", () => {
+  assertEquals(parseCliArgs(["release"]), {
+    command: "release",
+    help: false,
+    output: "human",
+    options: { dryRun: false },
+  });
+  assertEquals(
+    parseCliArgs([
+      "release",
+      "--ref",
+      "abc123",
+      "--tag-format",
+      "{{name}}/v{{version}}",
+      "--dry-run",
+      "--json",
+    ]),
+    {
+      command: "release",
+      help: false,
+      output: "json",
+      options: {
+        ref: "abc123",
+        tagFormat: "{{name}}/v{{version}}",
+        dryRun: true,
+      },
+    },
+  );
+  assertEquals(parseCliArgs(["release", "--help"]).help, true);
+  assertThrows(
+    () => parseCliArgs(["release", "--start", "v1.0.0"]),
+    Error,
+    "Unknown argument for release: --start",
+  );
+});
+
+Deno.test("parseCliArgs() throws with invalid arguments", () => {
+  assertThrows(
+    () => parseCliArgs(["--dryrun"]),
+    Error,
+    "Unknown argument: --dryrun",
+  );
+  assertThrows(
+    () => parseCliArgs(["--dry-run=network"]),
+    Error,
+    `Invalid value for --dry-run: network (expected "git" or no value)`,
+  );
+  assertThrows(
+    () => parseCliArgs(["--changeset-mode", "append"]),
+    Error,
+    `Invalid value for --changeset-mode: append (expected "merge" or "replace")`,
+  );
+  assertThrows(
+    () => parseCliArgs(["change", "--package", "foo=huge"]),
+    Error,
+    "Invalid value for --package: foo=huge (expected major, minor or patch)",
+  );
+  assertThrows(
+    () => parseCliArgs(["change", "--start", "v1.0.0"]),
+    Error,
+    "Unknown argument for change: --start",
+  );
+  assertThrows(
+    () => parseCliArgs(["--set", "@scope/crypto"]),
+    Error,
+    "Invalid value for --set: @scope/crypto (expected <name>=<version>)",
+  );
+  assertThrows(
+    () => parseCliArgs(["--preid", "rc.1"]),
+    Error,
+    `Invalid value for --preid: rc.1 (expected alphanumerics and hyphens)`,
+  );
+  assertThrows(
+    () => parseCliArgs(["--output=yaml"]),
+    Error,
+    `Invalid value for --output: yaml (expected "human" or "json")`,
+  );
+  assertThrows(
+    () => parseCliArgs(["--base"]),
+    Error,
+    "Missing value for --base",
+  );
+});
+
+Deno.test("createJsonOutput()", async (t) => {
+  const commit = {
+    hash: "0000000000000000000000000000000000000000",
+    subject: "feat(foo): add a feature",
+    body: "",
+  };
+  await assertSnapshot(
+    t,
+    createJsonOutput({
+      bumped: true,
+      updates: [{
+        name: "@scope/foo",
+        from: "1.2.3",
+        to: "1.3.0",
+        diff: "minor",
+        path: "foo/deno.json",
+        summary: {
+          module: "foo",
+          version: "minor",
+          commits: [{ ...commit, tag: "feat" }],
+        },
+      }],
+      diagnostics: [{
+        type: "unknown_commit",
+        commit: { ...commit, subject: "random commit" },
+        reason: "The commit message does not match the default pattern.",
+      }],
+      releaseNote: "### 1970.01.01\n",
+    }),
+  );
+});
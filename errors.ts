@@ -0,0 +1,111 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+/**
+ * The errors thrown by {@linkcode bumpWorkspaces}. All of them extend
+ * {@linkcode BumpWorkspacesError}, so you can handle them in one place:
+ *
+ * ```ts
+ * import { bumpWorkspaces, BumpWorkspacesError } from "@deno/bump-workspaces";
+ *
+ * try {
+ *   await bumpWorkspaces();
+ * } catch (e) {
+ *   if (e instanceof BumpWorkspacesError) {
+ *     console.error(e.message);
+ *   } else {
+ *     throw e;
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+/** The base class of the errors thrown by this package. */
+export class BumpWorkspacesError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = this.constructor.name;
+  }
+}
+
+/** Thrown when no config file (deno.json, deno.jsonc or package.json) is found in the directory. */
+export class ConfigNotFoundError extends BumpWorkspacesError {
+  /** The directory where the config file is expected. */
+  dir: string;
+  constructor(dir: string, names: string[]) {
+    super(
+      `No ${names.join(", ").replace(/, ([^,]+)$/, " or $1")} found in ${dir}`,
+    );
+    this.dir = dir;
+  }
+}
+
+/** Thrown when a config file is invalid, e.g. invalid JSONC, missing workspace field or invalid `bumpWorkspaces` field. */
+export class InvalidConfigError extends BumpWorkspacesError {
+  /** The path of the invalid config file. */
+  path: string;
+  constructor(path: string, message: string, options?: ErrorOptions) {
+    super(`Invalid config in ${path}: ${message}`, options);
+    this.path = path;
+  }
+}
+
+/** Thrown when a credential or git identity needed for making the commit and the pull request is not given. */
+export class MissingCredentialError extends BumpWorkspacesError {
+  /** The environment variable which can provide the missing value. */
+  envVar: string;
+  constructor(envVar: string) {
+    super(`${envVar} is not set.`);
+    this.envVar = envVar;
+  }
+}
+
+/** Thrown when the base branch is not given and the current branch is not found (e.g. in detached HEAD state). */
+export class DetachedHeadError extends BumpWorkspacesError {
+  constructor() {
+    super(
+      "The current branch is not found. Check out a branch or specify the base branch.",
+    );
+  }
+}
+
+/** Thrown when a release note template is malformed. */
+export class InvalidTemplateError extends BumpWorkspacesError {}
+
+/** Thrown when a request to the API of the code hosting service fails. */
+export class ProviderRequestError extends BumpWorkspacesError {
+  /** The HTTP status of the response. */
+  status: number;
+  constructor(method: string, url: string, status: number, body: string) {
+    super(`${method} ${url} failed with ${status}: ${body}`);
+    this.status = status;
+  }
+}
+
+/** Thrown when a label, a user or a milestone for the pull request is not found in the repository. */
+export class MetadataNotFoundError extends BumpWorkspacesError {
+  constructor(kind: string, name: string) {
+    super(`The ${kind} "${name}" is not found in the repository.`);
+  }
+}
+
+/** Thrown when an explicit version of a module (e.g. `Release-As` footer) is invalid or doesn't move the version forward. */
+export class InvalidVersionOverrideError extends BumpWorkspacesError {
+  /** The name of the module */
+  module: string;
+  constructor(module: string, message: string) {
+    super(`Invalid version override for ${module}: ${message}`);
+    this.module = module;
+  }
+}
+
+/** Thrown when a changeset file is malformed, or lists an unknown module when it's created. */
+export class InvalidChangesetError extends BumpWorkspacesError {
+  /** The path of the invalid changeset file. */
+  path: string;
+  constructor(path: string, message: string) {
+    super(`Invalid changeset in ${path}: ${message}`);
+    this.path = path;
+  }
+}
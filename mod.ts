@@ -1,9 +1,10 @@
 // Copyright 2024 the Deno authors. All rights reserved. MIT license.
 
 import { $ } from "@david/dax";
-import { Octokit } from "npm:octokit@^3.1";
 import { cyan, magenta } from "@std/fmt/colors";
 import { ensureFile } from "@std/fs/ensure-file";
+import { parse as parseJsonc } from "@std/jsonc/parse";
+import { dirname } from "@std/path/dirname";
 import { join } from "@std/path/join";
 
 /**
@@ -14,33 +15,152 @@ import { join } from "@std/path/join";
  * - Read commit messages between the given `start` and `base`.
  *   - `start` defaults to the latest tag in the current branch (=`git describe --tags --abbrev=0`)
  *   - `base` defaults to the current branch (=`git branch --show-current`)
- * - Detect necessary version updates from the commit messages.
+ *   - With `perPackageStart`, each module starts from its own latest tag or
+ *     the commit where its version last changed.
+ * - Detect necessary version updates from the commit messages and the
+ *   changeset files in `.changes` directory.
  * - Update the versions in the deno.json files.
  * - Create a release note.
- * - Create a git commit with given `gitUserName` and `gitUserEmail`.
- * - Create a pull request, targeting the given `base` branch.
+ * - Create a git commit with given `gitUserName` and `gitUserEmail`. The
+ *   consumed changeset files are deleted in the commit.
+ * - Create a pull request, targeting the given `base` branch. With
+ *   `releaseBranch`, the open pull request of the branch is updated instead.
+ *
+ * After the pull request is merged, {@linkcode releaseWorkspaces} creates the
+ * git tags and the releases (e.g. GitHub releases) of the updated packages.
  *
  * @module
  */
 
 import {
+  BumpWorkspacesError,
+  DetachedHeadError,
+  InvalidVersionOverrideError,
+  MissingCredentialError,
+} from "./errors.ts";
+import {
+  type Changeset,
+  DEFAULT_CHANGESET_DIR,
+  getChangesetVersionBumps,
+  readChangesets,
+} from "./changeset.ts";
+import {
+  type Provider,
+  type ProviderName,
+  resolveProvider,
+} from "./provider.ts";
+import {
+  applyDependencyUpdates,
   applyVersionBump,
+  applyVersionGroups,
+  type BumpRules,
+  checkExcludedModule,
   checkModuleName,
   type Commit,
+  type Contributor,
+  createGitReader,
+  createPackageChangelog,
   createPrBody,
   createReleaseBranchName,
   createReleaseNote,
+  createReleaseNoteContext,
   createReleaseTitle,
+  createTagName,
+  DEFAULT_RELEASE_NOTE_SECTIONS,
+  DEFAULT_TAG_FORMAT,
   defaultParseCommitMessage,
   type Diagnostic,
+  getBumpConfig,
+  getCascadedModules,
+  getContributors,
+  getFixedGroupOverrides,
   getModule,
+  getPrereleaseChannel,
   getWorkspaceModules,
+  isExcludedModule,
+  type Logger,
+  parseReleaseAsFooter,
+  parseVersionOverride,
+  pathProp,
+  type ReleaseNoteOptions,
+  type ReleaseNoteSection,
+  type ReleaseNoteTemplate,
+  renderReleaseNoteTemplate,
+  resolveVersionGroups,
+  runCommand,
   summarizeVersionBumpsByModule,
   type VersionBump,
+  type VersionOverride,
   type VersionUpdateResult,
   type WorkspaceModule,
 } from "./util.ts";
 
+export {
+  type CommitAuthor,
+  type Contributor,
+  createGitReader,
+  DEFAULT_RELEASE_NOTE_SECTIONS,
+  DEFAULT_TAG_FORMAT,
+  type Diagnostic,
+  type FileReader,
+  fsReader,
+  getPrereleaseChannel,
+  type Logger,
+  type PrereleaseOptions,
+  type ReleaseNoteCommit,
+  type ReleaseNoteContext,
+  type ReleaseNoteSection,
+  type ReleaseNoteTemplate,
+  silentLogger,
+  type VersionGroup,
+  type VersionOverride,
+  type VersionUpdateResult,
+} from "./util.ts";
+export {
+  addChangeset,
+  type AddChangesetOptions,
+  type Changeset,
+  DEFAULT_CHANGESET_DIR,
+  formatChangeset,
+  parseChangeset,
+  readChangesets,
+} from "./changeset.ts";
+export {
+  type Release,
+  releaseWorkspaces,
+  type ReleaseWorkspacesOptions,
+  type ReleaseWorkspacesResult,
+} from "./release.ts";
+export {
+  type ChangeRequest,
+  type ChangeRequestMetadata,
+  type CreateChangeRequestParams,
+  createGiteaProvider,
+  createGitHubProvider,
+  createGitLabProvider,
+  type CreateReleaseParams,
+  type FindChangeRequestParams,
+  type Provider,
+  PROVIDER_ENV_VARS,
+  PROVIDER_NAMES,
+  type ProviderName,
+  type ProviderOptions,
+  resolveProvider,
+  type UpdateChangeRequestParams,
+} from "./provider.ts";
+export {
+  BumpWorkspacesError,
+  ConfigNotFoundError,
+  DetachedHeadError,
+  InvalidChangesetError,
+  InvalidConfigError,
+  InvalidTemplateError,
+  InvalidVersionOverrideError,
+  MetadataNotFoundError,
+  MissingCredentialError,
+  ProviderRequestError,
+} from "./errors.ts";
+
 // A random separator that is unlikely to be in a commit message.
 const separator = "#%$".repeat(35);
 
@@ -48,11 +168,19 @@ const separator = "#%$".repeat(35);
 export type BumpWorkspaceOptions = {
   /** The git tag or commit hash to start from. The default is the latest tag. */
   start?: string;
+  /**
+   * Whether to start from the own start point of each module, which is the
+   * latest tag of the module in `tagFormat`, or the commit where the version
+   * of the module last changed. `start` is used for the modules without such
+   * start points. The default is `perPackageStart` in the config or `false`
+   */
+  perPackageStart?: boolean;
   /** The base branch name to compare commits. The default is the current branch. */
   base?: string;
   parseCommitMessage?: (
     commit: Commit,
     workspaceModules: WorkspaceModule[],
+    rules: BumpRules,
   ) => VersionBump[] | Diagnostic;
   /** The root directory of the workspace. */
   root?: string;
@@ -60,20 +188,181 @@ export type BumpWorkspaceOptions = {
   gitUserName?: string;
   /** The git user email which is used for making a commit */
   gitUserEmail?: string;
-  /** The github token e.g. */
+  /** The token of the code hosting service e.g. ghp_xxxxxxxxxxxx. The default is the token env var of the provider, e.g. `GITHUB_TOKEN` */
   githubToken?: string;
-  /** The github repository e.g. denoland/deno_std */
+  /** The repository e.g. denoland/deno_std. The default is the repository env var of the provider, e.g. `GITHUB_REPOSITORY` */
   githubRepo?: string;
+  /** The code hosting service where the pull request is created. The default is `"github"` */
+  provider?: ProviderName | Provider;
+  /** The web url of the self-hosted instance of the provider e.g. https://gitlab.example.com. The default is the url env var of the provider or the public instance. */
+  providerUrl?: string;
   /** Perform all operations if false.
    * Doesn't perform file edits and network operations when true.
    * Perform fs ops, but doesn't perform git operations when "network" */
   dryRun?: boolean | "git";
   /** The import map path. Default is deno.json(c) at the root. */
   importMap?: string;
-  /** The path to release note markdown file. The dfault is `Releases.md` */
+  /** The path to release note markdown file. The default is `releaseNotePath` in the config or `Releases.md` */
   releaseNotePath?: string;
+  /** Whether to write the release note at `releaseNotePath`. The default is `rootReleaseNote` in the config or `true` */
+  rootReleaseNote?: boolean;
+  /** Whether to write CHANGELOG.md in each updated package directory. The default is `packageChangelogs` in the config or `false` */
+  packageChangelogs?: boolean;
+  /** The template of the release note. The default is `releaseNoteTemplate` in the config or the built-in format */
+  releaseNoteTemplate?: ReleaseNoteTemplate;
+  /** The template of the pull request body. The default is `prBodyTemplate` in the config or the built-in format */
+  prBodyTemplate?: ReleaseNoteTemplate;
+  /**
+   * The sections for grouping the commits of each module in the release notes.
+   * `true` means {@linkcode DEFAULT_RELEASE_NOTE_SECTIONS}, and `false` lists
+   * the commits without grouping. The default is `releaseNoteSections` in the
+   * config or `false`
+   */
+  releaseNoteSections?: ReleaseNoteSection[] | boolean;
+  /** Whether to link the pull request references (e.g. `(#123)`) and the commits to `githubRepo` on the provider in the release notes. The default is `releaseNoteLinks` in the config or `false` */
+  releaseNoteLinks?: boolean;
+  /** Whether to add the list of the contributors, with the first-time contributors called out, to the release note. The default is `releaseNoteContributors` in the config or `false` */
+  releaseNoteContributors?: boolean;
+  /**
+   * The stable name of the release branch e.g. `release`. If given, the
+   * branch is force-pushed with the recomputed changes, and the open pull
+   * request of the branch is updated instead of opening a new one. The default
+   * is `releaseBranch` in the config, or a new `release-YYYY-MM-DD-HH-MM-SS`
+   * branch for each run.
+   */
+  releaseBranch?: string;
+  /** The prerelease identifier of the channel e.g. `rc`. If given, the bumps enter the channel (e.g. `1.2.3` to `1.3.0-rc.0`) or increment the current prerelease (`1.3.0-rc.0` to `1.3.0-rc.1`). The default is `prerelease` in the config */
+  prerelease?: string;
+  /** Promotes the prerelease versions to the stable versions (e.g. `1.3.0-rc.2` to `1.3.0`). `true` promotes all the modules in prerelease, and an array promotes the given modules. */
+  graduate?: boolean | string[];
+  /** The versions to set explicitly regardless of the commits, keyed by the module names e.g. `{ "@scope/crypto": "1.0.0" }`. These take precedence over `Release-As` footers in the commits. Each version must be greater than the current one. */
+  versionOverrides?: Record<string, string>;
+  /** The names of the modules to exclude from the version bumps. `*` matches any characters e.g. `@scope/internal-*`. These are added to `exclude` in the config. */
+  exclude?: string[];
+  /** The groups of the module names which always share the same version e.g. `[["@scope/http-*"]]`. The default is `fixed` in the config */
+  fixed?: string[][];
+  /** The groups of the module names whose updated members are bumped at least by the largest bump among them. The default is `linked` in the config */
+  linked?: string[][];
+  /** The directory of the changeset files relative to the root. The default is `changesetDir` in the config or {@linkcode DEFAULT_CHANGESET_DIR} */
+  changesetDir?: string;
+  /** How the changesets are combined with the commits. `merge` adds the bumps of the changesets to the ones of the commits, and `replace` ignores the commit messages. The default is `changesetMode` in the config or `merge` */
+  changesetMode?: "merge" | "replace";
+  /** The labels of the pull request. The default is `prLabels` in the config */
+  prLabels?: string[];
+  /** The user names of the reviewers requested for the pull request. The default is `prReviewers` in the config */
+  prReviewers?: string[];
+  /** The team slugs of the reviewers requested for the pull request (GitHub and Gitea only). The default is `prTeamReviewers` in the config */
+  prTeamReviewers?: string[];
+  /** The user names of the assignees of the pull request. The default is `prAssignees` in the config */
+  prAssignees?: string[];
+  /** The title of the open milestone of the pull request. The default is `prMilestone` in the config */
+  prMilestone?: string;
+  /** Whether to open the pull request as a draft. The default is `prDraft` in the config or `true` */
+  prDraft?: boolean;
+  /** The logger for printing the progress. The default is `console`. Use {@linkcode silentLogger} to suppress the output. */
+  logger?: Logger;
 };
 
+/** The result of {@linkcode bumpWorkspaces} */
+export type BumpWorkspacesResult = {
+  /** True if any module is bumped */
+  bumped: boolean;
+  /** The version updates of the modules */
+  updates: VersionUpdateResult[];
+  /** The diagnostics of the commits which are not handled */
+  diagnostics: Diagnostic[];
+  /** The release note of the updates. Undefined if nothing is bumped. */
+  releaseNote?: string;
+  /** The name of the created release branch. Undefined if the branch is not created. */
+  branchName?: string;
+  /** The created or updated pull request. Undefined if the pull request is not created. */
+  pullRequest?: {
+    url: string;
+    number: number;
+  };
+  /** True if the existing pull request of `releaseBranch` is updated instead of creating a new one. */
+  pullRequestUpdated?: boolean;
+  /** The error of applying the labels, the reviewers, the assignees or the milestone to the pull request. The pull request exists even if this is set. */
+  pullRequestMetadataError?: BumpWorkspacesError;
+};
+
+/** Gets the commits between the given start and base. All the ancestors of the base are returned if the start is undefined. */
+async function getCommits(
+  start: string | undefined,
+  base: string,
+): Promise<Commit[]> {
+  const range = start === undefined ? base : `${start}..${base}`;
+  const text =
+    await $`git --no-pager log --pretty=format:${separator}%H%n%an%n%ae%n%B ${range}`
+      .text();
+
+  // drops the first empty item
+  return text.split(separator).slice(1).map((commit): Commit => {
+    const [hash, name, email] = commit.split("\n", 3);
+    commit = commit.slice(hash.length + name.length + email.length + 3);
+    const author = { name, email };
+    const i = commit.indexOf("\n");
+    if (i < 0) {
+      return { hash, subject: commit.trim(), body: "", author };
+    }
+    const subject = commit.slice(0, i).trim();
+    const body = commit.slice(i + 1).trim();
+    return { hash, subject, body, author };
+  });
+}
+
+/** Gets the commit which added the changeset file. The hash is empty if the file is not committed yet. */
+async function getChangesetCommit(
+  changeset: Changeset,
+  base: string,
+): Promise<Pick<Commit, "hash" | "author">> {
+  const [hash = "", name, email] =
+    await $`git --no-pager log -1 --diff-filter=A --pretty=format:%H%n%an%n%ae ${base} -- ${changeset.path}`
+      .noThrow().stderr("null").lines();
+  return hash ? { hash, author: { name, email } } : { hash };
+}
+
+/**
+ * Finds the start point of the module, which is the latest tag of the module,
+ * or the commit where the version of the module last changed. Returns
+ * undefined if neither is found in the history of the base.
+ */
+async function findModuleStart(
+  module: WorkspaceModule,
+  tagFormat: string,
+  base: string,
+): Promise<string | undefined> {
+  const pattern = createTagName(tagFormat, { name: module.name, version: "*" });
+  const tag = await $`git describe --tags --abbrev=0 --match ${pattern} ${base}`
+    .noThrow().stderr("null").text();
+  if (tag) {
+    return tag;
+  }
+  const path = module[pathProp];
+  const getVersion = async (rev: string) => {
+    const text = await createGitReader(rev).readTextFile(path);
+    return text === undefined
+      ? undefined
+      : (parseJsonc(text) as { version?: string } | null)?.version;
+  };
+  // The commits which changed the config of the module, from the newest. The
+  // versions are compared, as the diffs can have "version" in other fields.
+  const hashes =
+    (await $`git --no-pager log --pretty=format:%H ${base} -- ${path}`
+      .lines()).filter((hash) => hash !== "");
+  let version = hashes.length > 0 ? await getVersion(hashes[0]) : undefined;
+  for (const [i, hash] of hashes.entries()) {
+    const previous = i + 1 < hashes.length
+      ? await getVersion(hashes[i + 1])
+      : undefined;
+    if (previous !== version) {
+      return hash;
+    }
+    version = previous;
+  }
+  return undefined;
+}
+
 /**
  * Upgrade the versions of the packages in the workspace using Conventional Commits rules.
  *
@@ -82,11 +371,19 @@ export type BumpWorkspaceOptions = {
  * - Read commit messages between the given `start` and `base`.
  *   - `start` defaults to the latest tag in the current branch (=`git describe --tags --abbrev=0`)
  *   - `base` defaults to the current branch (=`git branch --show-current`)
- * - Detect necessary version updates from the commit messages.
+ *   - With `perPackageStart`, each module starts from its own latest tag or
+ *     the commit where its version last changed.
+ * - Detect necessary version updates from the commit messages and the
+ *   changeset files.
  * - Update the versions in the deno.json files.
  * - Create a release note.
- * - Create a git commit with given `gitUserName` and `gitUserEmail`.
- * - Create a pull request, targeting the given `base` branch.
+ * - Create a git commit with given `gitUserName` and `gitUserEmail`. The
+ *   consumed changeset files are deleted in the commit.
+ * - Create a pull request, targeting the given `base` branch. With
+ *   `releaseBranch`, the open pull request of the branch is updated instead.
+ *
+ * Throws {@linkcode BumpWorkspacesError} (or its subclasses) when the
+ * workspace config is invalid or the required credentials are missing.
  */
 export async function bumpWorkspaces(
   {
@@ -97,71 +394,187 @@ export async function bumpWorkspaces(
     gitUserEmail,
     githubToken,
     githubRepo,
+    provider,
+    providerUrl,
     dryRun = false,
+    perPackageStart,
     importMap,
-    releaseNotePath = "Releases.md",
+    releaseNotePath,
+    rootReleaseNote,
+    packageChangelogs,
+    releaseNoteTemplate,
+    prBodyTemplate,
+    releaseNoteSections,
+    releaseNoteLinks,
+    releaseNoteContributors,
+    releaseBranch,
+    prerelease,
+    graduate = false,
+    versionOverrides = {},
+    exclude = [],
+    fixed,
+    linked,
+    changesetDir,
+    changesetMode,
+    prLabels,
+    prReviewers,
+    prTeamReviewers,
+    prAssignees,
+    prMilestone,
+    prDraft,
     root = ".",
+    logger = console,
   }: BumpWorkspaceOptions = {},
-) {
+): Promise<BumpWorkspacesResult> {
   const now = new Date();
-  start ??= await $`git describe --tags --abbrev=0`.text();
   base ??= await $`git branch --show-current`.text();
   if (!base) {
-    console.error("The current branch is not found.");
-    Deno.exit(1);
+    throw new DetachedHeadError();
   }
 
-  await $`git checkout ${start}`;
-  const [_oldConfigPath, oldModules] = await getWorkspaceModules(root);
-  await $`git checkout -`;
-  await $`git checkout ${base}`;
-  const [configPath, modules] = await getWorkspaceModules(root);
-  await $`git checkout -`;
-
-  const newBranchName = createReleaseBranchName(now);
-  releaseNotePath = join(root, releaseNotePath);
+  // Reads the files from the git objects, so the working tree is never touched while planning
+  const baseReader = createGitReader(base);
+  const [configPath, allModules] = await getWorkspaceModules(
+    root,
+    baseReader,
+  );
+  const config = await getBumpConfig(root, baseReader);
+  // The excluded modules are never bumped, even by the wildcard scope or the dependency updates
+  const excludePatterns = [...config.exclude ?? [], ...exclude];
+  const excludedModules = allModules.filter((module) =>
+    isExcludedModule(module, excludePatterns)
+  );
+  const modules = allModules.filter((module) =>
+    !excludedModules.includes(module)
+  );
+  if (excludedModules.length > 0) {
+    logger.log(
+      `Excluded modules: ${excludedModules.map((m) => m.name).join(", ")}`,
+    );
+  }
 
-  const text =
-    await $`git --no-pager log --pretty=format:${separator}%H%B ${start}..${base}`
-      .text();
+  perPackageStart ??= config.perPackageStart ?? false;
+  // The repository may have no common tags if the modules are tagged separately
+  start ??= perPackageStart
+    ? await $`git describe --tags --abbrev=0`.noThrow().stderr("null")
+      .text() || undefined
+    : await $`git describe --tags --abbrev=0`.text();
+  // The start points of the modules
+  const starts: Record<string, string | undefined> = {};
+  // The modules without the start points, which are released as new modules
+  const newModules = new Set<string>();
+  for (const module of modules) {
+    if (!perPackageStart) {
+      starts[module.name] = start;
+      continue;
+    }
+    const moduleStart = await findModuleStart(
+      module,
+      config.tagFormat ?? DEFAULT_TAG_FORMAT,
+      base,
+    );
+    if (moduleStart === undefined) {
+      logger.info(
+        `No start point is found for ${module.name}. It's released as a new module.`,
+      );
+      newModules.add(module.name);
+    }
+    starts[module.name] = moduleStart ?? start;
+  }
+  const uniqueStarts = [...new Set(Object.values(starts))];
 
-  const commits = text.split(separator).map((commit) => {
-    const hash = commit.slice(0, 40);
-    commit = commit.slice(40);
-    const i = commit.indexOf("\n");
-    if (i < 0) {
-      return { hash, subject: commit.trim(), body: "" };
+  const oldModulesByStart = new Map<string | undefined, WorkspaceModule[]>();
+  for (const start of uniqueStarts) {
+    if (start === undefined) {
+      oldModulesByStart.set(start, []);
+      continue;
     }
-    const subject = commit.slice(0, i).trim();
-    const body = commit.slice(i + 1).trim();
-    return { hash, subject, body };
+    const [_oldConfigPath, oldModules] = await getWorkspaceModules(
+      root,
+      createGitReader(start),
+    );
+    oldModulesByStart.set(start, oldModules);
+  }
+  const oldModules = modules.flatMap((module) => {
+    if (newModules.has(module.name)) {
+      return [];
+    }
+    const oldModule = getModule(
+      module.name,
+      oldModulesByStart.get(starts[module.name])!,
+    );
+    return oldModule ? [oldModule] : [];
   });
-  commits.shift(); // drop the first empty item
 
-  console.log(
-    `Found ${cyan(commits.length.toString())} commits between ${
-      magenta(start)
-    } and ${magenta(base)}.`,
+  releaseBranch ??= config.releaseBranch;
+  const newBranchName = releaseBranch ?? createReleaseBranchName(now);
+  releaseNotePath = join(
+    root,
+    releaseNotePath ?? config.releaseNotePath ?? "Releases.md",
   );
+
+  // The commits between each start point and the base
+  const ranges = new Map<string | undefined, Set<string>>();
+  const commitsByHash = new Map<string, Commit>();
+  for (const start of uniqueStarts) {
+    const commits = await getCommits(start, base);
+    ranges.set(start, new Set(commits.map((c) => c.hash)));
+    for (const commit of commits) {
+      commitsByHash.set(commit.hash, commit);
+    }
+  }
+  const commits = [...commitsByHash.values()];
+
+  if (perPackageStart) {
+    logger.log(
+      `Found ${
+        cyan(commits.length.toString())
+      } commits between the start points of the modules and ${magenta(base)}:`,
+    );
+    for (const module of modules) {
+      logger.log(`  ${module.name} ${magenta(starts[module.name] ?? "-")}`);
+    }
+  } else {
+    logger.log(
+      `Found ${cyan(commits.length.toString())} commits between ${
+        magenta(start!)
+      } and ${magenta(base)}.`,
+    );
+  }
   const versionBumps: VersionBump[] = [];
   const diagnostics: Diagnostic[] = [];
-  for (const commit of commits) {
-    if (/^v?\d+\.\d+\.\d+/.test(commit.subject)) {
-      // Skip if the commit subject is version bump
-      continue;
-    }
-    if (/^Release \d+\.\d+\.\d+/.test(commit.subject)) {
-      // Skip if the commit subject is release
+  const overrides = new Map<string, VersionOverride>();
+  changesetMode ??= config.changesetMode ?? "merge";
+  // The commit messages are not used if the changesets replace them
+  for (const commit of changesetMode === "replace" ? [] : commits) {
+    if (config.rules.skipSubjects.some((re) => re.test(commit.subject))) {
+      // Skip if the commit subject is version bump, release, etc
       continue;
     }
-    const parsed = parseCommitMessage(commit, modules);
+    const parsed = parseCommitMessage(commit, modules, config.rules);
     if (Array.isArray(parsed)) {
       for (const versionBump of parsed) {
-        const diagnostic = checkModuleName(versionBump, modules);
+        const diagnostic = checkExcludedModule(versionBump, excludedModules) ??
+          checkModuleName(versionBump, modules);
         if (diagnostic) {
           diagnostics.push(diagnostic);
-        } else {
-          versionBumps.push(versionBump);
+          continue;
+        }
+        const { name } = getModule(versionBump.module, modules)!;
+        if (!ranges.get(starts[name])!.has(commit.hash)) {
+          // The commit is before the start point of the module
+          continue;
+        }
+        versionBumps.push(versionBump);
+        const releaseAs = parseReleaseAsFooter(commit.body);
+        // The commits are listed from the newest, so the newest footer wins
+        if (releaseAs && !overrides.has(name)) {
+          overrides.set(name, {
+            version: releaseAs,
+            reason: `Release-As: ${releaseAs} in ${
+              commit.hash.slice(0, 7)
+            } (${commit.subject})`,
+          });
         }
       }
     } else {
@@ -169,23 +582,164 @@ export async function bumpWorkspaces(
       diagnostics.push(parsed);
     }
   }
-  const summaries = summarizeVersionBumpsByModule(versionBumps);
+  // The changesets are read from the working tree, which includes the ones not committed yet
+  const changesets = await readChangesets(
+    join(root, changesetDir ?? config.changesetDir ?? DEFAULT_CHANGESET_DIR),
+  );
+  // The changesets which drive any version bump. These are deleted in the release commit.
+  const consumedChangesets: Changeset[] = [];
+  for (const changeset of changesets) {
+    const commit = await getChangesetCommit(changeset, base);
+    let consumed = false;
+    for (const versionBump of getChangesetVersionBumps(changeset, commit)) {
+      const diagnostic = checkExcludedModule(versionBump, excludedModules) ??
+        checkModuleName(versionBump, modules);
+      if (diagnostic) {
+        diagnostics.push(diagnostic);
+        continue;
+      }
+      const { name } = getModule(versionBump.module, modules)!;
+      // Uses the same module key as the commits, so the bumps are summarized together
+      const existing = versionBumps.find((b) =>
+        getModule(b.module, modules)!.name === name
+      );
+      versionBumps.push(
+        existing ? { ...versionBump, module: existing.module } : versionBump,
+      );
+      consumed = true;
+    }
+    if (consumed) {
+      consumedChangesets.push(changeset);
+    }
+  }
+  if (changesets.length > 0) {
+    logger.log(`Found ${cyan(changesets.length.toString())} changesets.`);
+  }
+  let summaries = summarizeVersionBumpsByModule(versionBumps, config.rules);
+
+  prerelease ??= config.prerelease;
+  // The modules to promote from the prerelease versions
+  const graduating = new Set<string>();
+  for (
+    const name of graduate === true
+      ? modules.map((m) => m.name)
+      : graduate || []
+  ) {
+    const module = getModule(name, modules);
+    if (!module || getPrereleaseChannel(module.version) === undefined) {
+      if (graduate !== true) {
+        logger.warn(`${name} is not a module in prerelease. Skipping.`);
+      }
+      continue;
+    }
+    graduating.add(module.name);
+    if (!summaries.some((s) => getModule(s.module, modules) === module)) {
+      summaries.push({ module: module.name, version: "patch", commits: [] });
+    }
+  }
+
+  for (const [name, version] of Object.entries(versionOverrides)) {
+    const module = getModule(name, modules);
+    if (!module) {
+      throw new InvalidVersionOverrideError(
+        name,
+        getModule(name, excludedModules)
+          ? "The module is excluded from the version bumps."
+          : "The module is not found in the workspace.",
+      );
+    }
+    overrides.set(module.name, { version, reason: "set explicitly" });
+  }
+  for (const [name, override] of overrides) {
+    // Validates the overrides before any file is updated
+    parseVersionOverride(getModule(name, modules)!, override);
+    if (!summaries.some((s) => getModule(s.module, modules)?.name === name)) {
+      summaries.push({ module: name, version: "patch", commits: [] });
+    }
+  }
+  const groups = resolveVersionGroups(modules, {
+    fixed: fixed ?? config.fixed,
+    linked: linked ?? config.linked,
+  }, configPath);
+  summaries = applyVersionGroups(summaries, modules, groups);
 
   if (summaries.length === 0) {
-    console.log("No version bumps.");
-    return;
+    logger.log("No version bumps.");
+    return { bumped: false, updates: [], diagnostics };
   }
 
-  console.log(`Updating the versions:`);
+  logger.log(`Updating the versions:`);
   let importMapPath: string;
   if (importMap) {
-    console.log(`Using the import map: ${cyan(importMap)}`);
+    logger.log(`Using the import map: ${cyan(importMap)}`);
     importMapPath = importMap;
   } else {
     importMapPath = configPath;
   }
   const updates: Record<string, VersionUpdateResult> = {};
   let importMapJson = await Deno.readTextFile(importMapPath);
+  const rootImports = (parseJsonc(importMapJson) as {
+    imports?: Record<string, string>;
+  }).imports ?? {};
+  // The versions which align the members of the fixed groups. These are kept
+  // apart from the explicit overrides, which take precedence.
+  const groupOverrides = new Map<string, VersionOverride>();
+  const getBumpOptions = (module: WorkspaceModule) => ({
+    prerelease,
+    graduate: graduating.has(module.name),
+    override: overrides.get(module.name) ?? groupOverrides.get(module.name),
+  });
+  while (true) {
+    const fixedGroupOverrides = await getFixedGroupOverrides(
+      summaries,
+      modules,
+      oldModules,
+      groups,
+      getBumpOptions,
+    );
+    for (const [name, override] of fixedGroupOverrides) {
+      const explicitOverride = overrides.get(name);
+      if (explicitOverride) {
+        // The group is aligned to the highest version, so the explicit
+        // version is lower than the one of another member
+        throw new InvalidVersionOverrideError(
+          name,
+          `${explicitOverride.version} is lower than ${override.version} of the fixed version group.`,
+        );
+      }
+      groupOverrides.set(name, override);
+    }
+    if (groups.length === 0) {
+      break;
+    }
+    // The members of the groups which are bumped only by the dependency
+    // cascade are added to the summaries, so the groups apply to them too.
+    // This repeats as the groups can bump more modules and their dependents.
+    const cascaded = (await getCascadedModules(
+      summaries,
+      modules,
+      oldModules,
+      rootImports,
+      getBumpOptions,
+      { prerelease },
+    )).filter((name) => groups.some((g) => g.members.includes(name)));
+    if (cascaded.length === 0) {
+      break;
+    }
+    summaries = applyVersionGroups(
+      [
+        ...summaries,
+        ...cascaded.map((name) => ({
+          module: name,
+          version: "patch" as const,
+          commits: [],
+        })),
+      ],
+      modules,
+      groups,
+    );
+  }
+  const directUpdates: VersionUpdateResult[] = [];
   for (const summary of summaries) {
     const module = getModule(summary.module, modules)!;
     const oldModule = getModule(summary.module, oldModules);
@@ -195,97 +749,260 @@ export async function bumpWorkspaces(
       oldModule,
       importMapJson,
       dryRun === true,
+      logger,
+      getBumpOptions(module),
     );
     importMapJson = importMapJson_;
-    updates[module.name] = versionUpdate;
+    if (!overrides.has(module.name)) {
+      // The alignment of the fixed group is shown as the group of the update
+      delete versionUpdate.override;
+    }
+    directUpdates.push(versionUpdate);
   }
-  console.table(updates, ["diff", "from", "to", "path"]);
+  // Bumps the dependents of the updated modules if necessary
+  const [importMapJson_, allUpdates] = await applyDependencyUpdates(
+    directUpdates,
+    modules,
+    oldModules,
+    rootImports,
+    importMapJson,
+    dryRun === true,
+    logger,
+    { prerelease },
+  );
+  importMapJson = importMapJson_;
+  for (const versionUpdate of allUpdates) {
+    const group = groups.find((g) => g.members.includes(versionUpdate.name));
+    if (group) {
+      versionUpdate.group = group;
+    }
+    updates[versionUpdate.name] = versionUpdate;
+  }
+  logger.table(updates, ["diff", "from", "to", "path"]);
 
-  console.log(
+  logger.log(
     `Found ${cyan(diagnostics.length.toString())} diagnostics:`,
   );
   for (const unknownCommit of diagnostics) {
-    console.log(`  ${unknownCommit.type} ${unknownCommit.commit.subject}`);
+    logger.log(`  ${unknownCommit.type} ${unknownCommit.commit.subject}`);
+  }
+
+  releaseNoteTemplate ??= config.releaseNoteTemplate;
+  prBodyTemplate ??= config.prBodyTemplate;
+  const sections = releaseNoteSections === true
+    ? DEFAULT_RELEASE_NOTE_SECTIONS
+    : releaseNoteSections === false
+    ? undefined
+    : releaseNoteSections ?? config.releaseNoteSections;
+  releaseNoteLinks ??= config.releaseNoteLinks ?? false;
+  const linkProvider = releaseNoteLinks
+    ? resolveProvider(provider, {
+      repo: githubRepo,
+      url: providerUrl,
+      requireToken: false,
+    })
+    : undefined;
+  releaseNoteContributors ??= config.releaseNoteContributors ?? false;
+  let contributors: Contributor[] | undefined;
+  if (releaseNoteContributors) {
+    // The authors until the start points of the updated modules are the
+    // previous contributors
+    const previousEmails = new Set<string>();
+    for (const start of new Set(Object.keys(updates).map((n) => starts[n]))) {
+      if (start === undefined) {
+        continue;
+      }
+      const emails = await $`git --no-pager log --pretty=format:%ae ${start}`
+        .lines();
+      for (const email of emails) {
+        previousEmails.add(email);
+      }
+    }
+    contributors = getContributors(
+      Object.values(updates).flatMap((u) => u.summary.commits),
+      previousEmails,
+    );
   }
+  const releaseNoteOptions: ReleaseNoteOptions = {
+    sections,
+    provider: linkProvider,
+    contributors,
+  };
+  const releaseNote = releaseNoteTemplate
+    ? renderReleaseNoteTemplate(
+      releaseNoteTemplate,
+      createReleaseNoteContext(Object.values(updates), diagnostics, now, {
+        githubRepo,
+        provider: linkProvider,
+        sections,
+        contributors,
+      }),
+    )
+    : createReleaseNote(
+      Object.values(updates),
+      modules,
+      now,
+      releaseNoteOptions,
+    );
+  const result: BumpWorkspacesResult = {
+    bumped: true,
+    updates: Object.values(updates),
+    diagnostics,
+    releaseNote,
+  };
 
-  const releaseNote = createReleaseNote(Object.values(updates), modules, now);
+  rootReleaseNote ??= config.rootReleaseNote ?? true;
+  packageChangelogs ??= config.packageChangelogs ?? false;
+  // The pairs of the path and the text to prepend
+  const notes: [path: string, text: string][] = [];
+  if (rootReleaseNote) {
+    notes.push([releaseNotePath, releaseNote]);
+  }
+  if (packageChangelogs) {
+    for (const update of Object.values(updates)) {
+      notes.push([
+        join(dirname(update.path), "CHANGELOG.md"),
+        createPackageChangelog(update, now, releaseNoteOptions),
+      ]);
+    }
+  }
 
   if (dryRun === true) {
-    console.log();
-    console.log(cyan("The release note:"));
-    console.log(releaseNote);
-    console.log(cyan("Skip making a commit."));
-    console.log(cyan("Skip making a pull request."));
+    for (const [path, text] of notes) {
+      logger.log();
+      logger.log(cyan(`The release note (${path}):`));
+      logger.log(text);
+    }
+    if (consumedChangesets.length > 0) {
+      logger.log(cyan("Skip deleting the changesets."));
+    }
+    logger.log(cyan("Skip making a commit."));
+    logger.log(cyan("Skip making a pull request."));
   } else {
     // Updates deno.json
     await Deno.writeTextFile(importMapPath, importMapJson);
 
     // Prepend release notes
-    await ensureFile(releaseNotePath);
-    await Deno.writeTextFile(
-      releaseNotePath,
-      releaseNote + "\n" + await Deno.readTextFile(releaseNotePath),
-    );
+    for (const [path, text] of notes) {
+      await ensureFile(path);
+      await Deno.writeTextFile(
+        path,
+        text + "\n" + await Deno.readTextFile(path),
+      );
+    }
+
+    if (notes.length > 0) {
+      await runCommand($`deno fmt ${notes.map(([path]) => path)}`, logger);
+    }
 
-    await $`deno fmt ${releaseNotePath}`;
+    // Deletes the consumed changesets, so they are removed in the release commit
+    for (const changeset of consumedChangesets) {
+      await Deno.remove(changeset.path);
+    }
 
     if (dryRun === false) {
       gitUserName ??= Deno.env.get("GIT_USER_NAME");
       if (gitUserName === undefined) {
-        console.error("GIT_USER_NAME is not set.");
-        Deno.exit(1);
+        throw new MissingCredentialError("GIT_USER_NAME");
       }
       gitUserEmail ??= Deno.env.get("GIT_USER_EMAIL");
       if (gitUserEmail === undefined) {
-        console.error("GIT_USER_EMAIL is not set.");
-        Deno.exit(1);
-      }
-      githubToken ??= Deno.env.get("GITHUB_TOKEN");
-      if (githubToken === undefined) {
-        console.error("GITHUB_TOKEN is not set.");
-        Deno.exit(1);
-      }
-      githubRepo ??= Deno.env.get("GITHUB_REPOSITORY");
-      if (githubRepo === undefined) {
-        console.error("GITHUB_REPOSITORY is not set.");
-        Deno.exit(1);
+        throw new MissingCredentialError("GIT_USER_EMAIL");
       }
+      const host = resolveProvider(provider, {
+        repo: githubRepo,
+        token: githubToken,
+        url: providerUrl,
+      });
 
       // Makes a commit
-      console.log(
-        `Creating a git commit in the new branch ${magenta(newBranchName)}.`,
+      logger.log(
+        `Creating a git commit in the branch ${magenta(newBranchName)}.`,
       );
-      await $`git checkout -b ${newBranchName}`;
-      await $`git add .`;
-      await $`git -c "user.name=${gitUserName}" -c "user.email=${gitUserEmail}" commit -m "chore: update versions"`;
-
-      console.log(`Pushing the new branch ${magenta(newBranchName)}.`);
-      await $`git push origin ${newBranchName}`;
-
-      // Makes a PR
-      console.log(`Creating a pull request.`);
-      const octoKit = new Octokit({ auth: githubToken });
-      const [owner, repo] = githubRepo.split("/");
-      const openedPr = await octoKit.request(
-        "POST /repos/{owner}/{repo}/pulls",
-        {
-          owner,
-          repo,
-          base: base,
-          head: newBranchName,
-          draft: true,
-          title: `chore: release ${createReleaseTitle(now)}`,
-          body: createPrBody(
+      // The stable release branch is recreated from the base on every run
+      await runCommand($`git checkout -B ${newBranchName}`, logger);
+      await runCommand($`git add .`, logger);
+      await runCommand(
+        $`git -c "user.name=${gitUserName}" -c "user.email=${gitUserEmail}" commit -m "chore: update versions"`,
+        logger,
+      );
+
+      logger.log(`Pushing the branch ${magenta(newBranchName)}.`);
+      if (releaseBranch) {
+        await runCommand($`git push --force origin ${newBranchName}`, logger);
+      } else {
+        await runCommand($`git push origin ${newBranchName}`, logger);
+      }
+
+      // Makes or updates a PR
+      const title = `chore: release ${createReleaseTitle(now)}`;
+      const body = prBodyTemplate
+        ? renderReleaseNoteTemplate(
+          prBodyTemplate,
+          createReleaseNoteContext(
             Object.values(updates),
             diagnostics,
-            githubRepo,
-            newBranchName,
+            now,
+            {
+              githubRepo,
+              provider: host,
+              releaseBranch: newBranchName,
+              sections,
+              contributors,
+            },
           ),
-        },
-      );
-      console.log("New pull request:", cyan(openedPr.data.html_url));
+        )
+        : createPrBody(
+          Object.values(updates),
+          diagnostics,
+          host,
+          newBranchName,
+        );
+      const existingPr = releaseBranch
+        ? await host.findChangeRequest({ base, head: newBranchName })
+        : undefined;
+      if (existingPr) {
+        logger.log(`Updating the pull request ${cyan(existingPr.url)}.`);
+        result.pullRequest = await host.updateChangeRequest(
+          existingPr.number,
+          { title, body },
+        );
+        result.pullRequestUpdated = true;
+      } else {
+        logger.log(`Creating a pull request.`);
+        result.pullRequest = await host.createChangeRequest({
+          base,
+          head: newBranchName,
+          draft: prDraft ?? config.prDraft ?? true,
+          title,
+          body,
+        });
+        logger.log("New pull request:", cyan(result.pullRequest.url));
+      }
+      // The metadata is applied to the updated pull request too, as it can be
+      // changed in the config after the pull request is opened
+      try {
+        await host.applyChangeRequestMetadata(result.pullRequest.number, {
+          labels: prLabels ?? config.prLabels,
+          reviewers: prReviewers ?? config.prReviewers,
+          teamReviewers: prTeamReviewers ?? config.prTeamReviewers,
+          assignees: prAssignees ?? config.prAssignees,
+          milestone: prMilestone ?? config.prMilestone,
+        });
+      } catch (e) {
+        // The pull request already exists, so the run doesn't fail here
+        if (!(e instanceof BumpWorkspacesError)) {
+          throw e;
+        }
+        result.pullRequestMetadataError = e;
+        logger.warn(
+          `Failed to apply the metadata to the pull request: ${e.message}`,
+        );
+      }
+      result.branchName = newBranchName;
     }
 
-    console.log("Done.");
+    logger.log("Done.");
   }
+  return result;
 }
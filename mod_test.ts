@@ -1,26 +1,48 @@
 // Copyright 2024 the Deno authors. All rights reserved. MIT license.
 
+import { $ } from "@david/dax";
 import { assertSnapshot } from "@std/testing/snapshot";
 import { copy, exists } from "@std/fs";
-import { bumpWorkspaces } from "./mod.ts";
-import { join } from "@std/path";
+import {
+  bumpWorkspaces,
+  InvalidVersionOverrideError,
+  silentLogger,
+} from "./mod.ts";
+import { join, resolve } from "@std/path";
 import { tryGetDenoConfig } from "./util.ts";
-import { assert, assertEquals } from "@std/assert";
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from "@std/assert";
 
 // Note: The test cases in this file use git information in the branch `origin/base-branch-for-testing`.
 
 Deno.test("bumpWorkspaces()", async (t) => {
   const dir = await Deno.makeTempDir();
   await copy("testdata/basic", dir, { overwrite: true });
-  await bumpWorkspaces({
+  const result = await bumpWorkspaces({
     dryRun: "git",
     githubRepo: "denoland/deno_std",
     githubToken: "1234567890",
     base: "origin/base-branch-for-testing",
     start: "start-tag-for-testing",
     root: dir,
+    logger: silentLogger,
   });
 
+  assert(result.bumped);
+  assertEquals(result.updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["bar", "2.3.4", "2.3.5"],
+    ["baz", "0.2.3", "0.2.4"],
+    ["foo", "1.2.3", "2.0.0"],
+    ["quux", "0.0.0", "0.1.0"],
+    ["qux", "0.3.4", "0.3.5"],
+  ]);
+  assertEquals(result.branchName, undefined);
+  assertEquals(result.pullRequest, undefined);
+
   const releaseNote = await Deno.readTextFile(join(dir, "Releases.md"));
   await assertSnapshot(
     t,
@@ -105,3 +127,455 @@ Deno.test(
     });
   },
 );
+
+Deno.test("bumpWorkspaces() skips the excluded modules", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  const result = await bumpWorkspaces({
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    exclude: ["@scope/qu*"],
+    logger: silentLogger,
+  });
+
+  assertEquals(result.updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["bar", "2.3.4", "2.3.5"],
+    ["baz", "0.2.3", "0.2.4"],
+    ["foo", "1.2.3", "2.0.0"],
+  ]);
+  assertEquals(
+    result.diagnostics
+      .filter((d) => d.type === "excluded_module_commit")
+      .map((d) => [d.commit.subject, d.reason]),
+    [
+      [
+        "fix(foo,bar,baz,qux,quux): a fix",
+        "The module is excluded from the version bumps: @scope/qux.",
+      ],
+      [
+        "fix(foo,bar,baz,qux,quux): a fix",
+        "The module is excluded from the version bumps: @scope/quux.",
+      ],
+      [
+        "BREAKING(quux): a breaking change",
+        "The module is excluded from the version bumps: @scope/quux.",
+      ],
+      [
+        "style(qux,quux): style update",
+        "The module is excluded from the version bumps: @scope/qux.",
+      ],
+      [
+        "style(qux,quux): style update",
+        "The module is excluded from the version bumps: @scope/quux.",
+      ],
+      [
+        "test(quux): add a test",
+        "The module is excluded from the version bumps: @scope/quux.",
+      ],
+      [
+        "perf(qux): a perf improvement",
+        "The module is excluded from the version bumps: @scope/qux.",
+      ],
+      [
+        "chore(qux): a chore",
+        "The module is excluded from the version bumps: @scope/qux.",
+      ],
+    ],
+  );
+});
+
+Deno.test("bumpWorkspaces() unifies the bumps of the version groups", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  const result = await bumpWorkspaces({
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    fixed: [["@scope/foo", "@scope/bar"]],
+    linked: [["@scope/baz", "@scope/quux"]],
+    logger: silentLogger,
+  });
+
+  assertEquals(
+    result.updates.map((u) => [u.summary.module, u.from, u.to, u.group?.type]),
+    [
+      ["bar", "2.3.4", "3.0.0", "fixed"],
+      ["baz", "0.2.3", "0.3.0", "linked"],
+      ["foo", "1.2.3", "3.0.0", "fixed"],
+      ["quux", "0.0.0", "0.1.0", "linked"],
+      ["qux", "0.3.4", "0.3.5", undefined],
+    ],
+  );
+  // The alignment of the group isn't an explicit override
+  assertEquals(result.updates[2].override, undefined);
+});
+
+Deno.test("bumpWorkspaces() aligns the fixed version group to the version override", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  const options = {
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    fixed: [["@scope/foo", "@scope/bar"]],
+    logger: silentLogger,
+  };
+  const result = await bumpWorkspaces({
+    ...options,
+    versionOverrides: { foo: "4.0.0" },
+  });
+  assertEquals(
+    result.updates
+      .filter((u) => u.group)
+      .map((u) => [u.name, u.to, u.override?.reason]),
+    [
+      ["@scope/bar", "4.0.0", undefined],
+      ["@scope/foo", "4.0.0", "set explicitly"],
+    ],
+  );
+  assert(result.releaseNote!.includes("Version override: set explicitly"));
+
+  // The explicit version can't be lower than the one of the other member
+  await assertRejects(
+    () => bumpWorkspaces({ ...options, versionOverrides: { foo: "2.0.0" } }),
+    InvalidVersionOverrideError,
+    "Invalid version override for @scope/foo: 2.0.0 is lower than 3.0.0 of the fixed version group.",
+  );
+});
+
+Deno.test("bumpWorkspaces() applies the version groups to the dependents", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  // bar and qux depend on foo, so they're bumped by the cascade from foo
+  await Deno.writeTextFile(
+    join(dir, "bar/deno.json"),
+    `{
+  "name": "@scope/bar",
+  "version": "2.3.4",
+  "imports": { "@scope/foo": "jsr:@scope/foo@^1.2.3" }
+}
+`,
+  );
+  await Deno.writeTextFile(
+    join(dir, "qux/deno.jsonc"),
+    `{
+  "name": "@scope/qux",
+  "version": "0.3.4",
+  "imports": { "@scope/foo": "jsr:@scope/foo@^1.2.3" }
+}
+`,
+  );
+  await Deno.mkdir(join(dir, ".changes"));
+  await Deno.writeTextFile(
+    join(dir, ".changes/rewrite-foo.md"),
+    `---\nfoo: major\n---\n\nRewrite the foo API.\n`,
+  );
+  const result = await bumpWorkspaces({
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    changesetMode: "replace",
+    linked: [["@scope/foo", "@scope/bar"]],
+    fixed: [["@scope/qux", "@scope/baz"]],
+    logger: silentLogger,
+  });
+
+  assertEquals(
+    result.updates.map((u) => [u.name, u.from, u.to, u.group?.type]),
+    [
+      ["@scope/foo", "1.2.3", "2.0.0", "linked"],
+      ["@scope/bar", "2.3.4", "3.0.0", "linked"],
+      ["@scope/qux", "0.3.4", "0.3.5", "fixed"],
+      ["@scope/baz", "0.2.3", "0.3.5", "fixed"],
+    ],
+  );
+  assertEquals(
+    result.updates[1].summary.commits.map((c) => c.subject),
+    ["updated dependency @scope/foo to 2.0.0"],
+  );
+});
+
+Deno.test("bumpWorkspaces() validates the version overrides before updating the files", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  const readConfigs = () =>
+    Promise.all(
+      ["bar/deno.json", "foo/deno.json", "qux/deno.jsonc"].map((path) =>
+        Deno.readTextFile(join(dir, path))
+      ),
+    );
+  const configs = await readConfigs();
+  await assertRejects(
+    () =>
+      bumpWorkspaces({
+        dryRun: "git",
+        base: "origin/base-branch-for-testing",
+        start: "start-tag-for-testing",
+        root: dir,
+        versionOverrides: { qux: "0.1.0" },
+        logger: silentLogger,
+      }),
+    InvalidVersionOverrideError,
+    "0.1.0 is not greater than the current version 0.3.4.",
+  );
+  assertEquals(await readConfigs(), configs);
+});
+
+Deno.test("bumpWorkspaces() accepts the absolute root in the repository", async () => {
+  const options = {
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    logger: silentLogger,
+  };
+  const relativeResult = await bumpWorkspaces({
+    ...options,
+    root: "testdata/basic",
+  });
+  const absoluteResult = await bumpWorkspaces({
+    ...options,
+    root: resolve("testdata/basic"),
+  });
+  assertEquals(
+    absoluteResult.updates.map((u) => [u.summary.module, u.from, u.to]),
+    relativeResult.updates.map((u) => [u.summary.module, u.from, u.to]),
+  );
+  assertEquals(absoluteResult.updates.length, 5);
+});
+
+Deno.test("bumpWorkspaces() consumes the changesets", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  await Deno.mkdir(join(dir, ".changes"));
+  await Deno.writeTextFile(join(dir, ".changes/README.md"), "# Changesets");
+  await Deno.writeTextFile(
+    join(dir, ".changes/rewrite-qux.md"),
+    `---\n"@scope/qux": major\n---\n\nRewrite the qux API.\n`,
+  );
+  const result = await bumpWorkspaces({
+    dryRun: "git",
+    githubRepo: "denoland/deno_std",
+    releaseNoteLinks: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    logger: silentLogger,
+  });
+
+  assertEquals(result.updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["bar", "2.3.4", "2.3.5"],
+    ["baz", "0.2.3", "0.2.4"],
+    ["foo", "1.2.3", "2.0.0"],
+    ["quux", "0.0.0", "0.1.0"],
+    ["qux", "0.3.4", "0.4.0"],
+  ]);
+  // The changeset is not committed, so the commit is not linked
+  assert(result.releaseNote!.includes("- Rewrite the qux API.\n"));
+  assert(!result.releaseNote!.includes("/commit/)"));
+  assert(!(await exists(join(dir, ".changes/rewrite-qux.md"))));
+  assert(await exists(join(dir, ".changes/README.md")));
+});
+
+Deno.test("bumpWorkspaces() replaces the commits with the changesets", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  await Deno.mkdir(join(dir, ".changes"));
+  await Deno.writeTextFile(
+    join(dir, ".changes/fix-foo.md"),
+    `---\nfoo: patch\n---\n\nFix a bug.\n`,
+  );
+  const result = await bumpWorkspaces({
+    dryRun: true,
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    changesetMode: "replace",
+    logger: silentLogger,
+  });
+
+  assertEquals(result.updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["foo", "1.2.3", "1.2.4"],
+  ]);
+  assertEquals(result.diagnostics, []);
+  assert(await exists(join(dir, ".changes/fix-foo.md")));
+});
+
+Deno.test("bumpWorkspaces() writes CHANGELOG.md of each package", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/basic", dir, { overwrite: true });
+  await bumpWorkspaces({
+    dryRun: "git",
+    base: "origin/base-branch-for-testing",
+    start: "start-tag-for-testing",
+    root: dir,
+    packageChangelogs: true,
+    rootReleaseNote: false,
+    logger: silentLogger,
+  });
+
+  assert(!(await exists(join(dir, "Releases.md"))));
+  const changelog = await Deno.readTextFile(join(dir, "foo/CHANGELOG.md"));
+  assertEquals(
+    changelog.replace(/\(\d+\.\d+\.\d+\)/, "(YYYY.MM.DD)"),
+    `### 2.0.0 (YYYY.MM.DD)
+
+- BREAKING(foo): a breaking change
+- deprecation(foo): a deprecation
+- fix(foo,bar,baz,qux,quux): a fix
+- docs(foo): add docs
+`,
+  );
+});
+
+/**
+ * Creates a git repository of the workspace which has the modules of the given
+ * versions, for the cases which need their own history.
+ */
+async function createRepo(versions: Record<string, string>) {
+  const dir = await Deno.makeTempDir();
+  const git = (args: string[], author = "Alice") =>
+    $`git -c user.name=${author} -c user.email=${author.toLowerCase()}@example.com ${args}`
+      .cwd(dir).quiet();
+  const writeConfig = (name: string, config: Record<string, unknown>) =>
+    Deno.writeTextFile(
+      join(dir, name, "deno.json"),
+      JSON.stringify({ name: `@scope/${name}`, ...config }, null, 2),
+    );
+  const commit = async (message: string, author?: string) => {
+    await git(["add", "."]);
+    await git(["commit", "-q", "--allow-empty", "-m", message], author);
+  };
+  await git(["init", "-q", "-b", "main"]);
+  await Deno.writeTextFile(
+    join(dir, "deno.json"),
+    JSON.stringify({
+      workspace: Object.keys(versions).map((name) => `./${name}`),
+    }),
+  );
+  for (const [name, version] of Object.entries(versions)) {
+    await Deno.mkdir(join(dir, name));
+    await writeConfig(name, { version });
+  }
+  await commit("initial");
+  return { dir, git, writeConfig, commit };
+}
+
+async function inDir<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const cwd = Deno.cwd();
+  Deno.chdir(dir);
+  try {
+    return await fn();
+  } finally {
+    Deno.chdir(cwd);
+  }
+}
+
+Deno.test("bumpWorkspaces() reads the uncommitted changesets in the repository", async () => {
+  const { dir, git, commit } = await createRepo({ foo: "1.0.0", bar: "2.0.0" });
+  await git(["tag", "start"]);
+  await Deno.mkdir(join(dir, ".changes"));
+  await Deno.writeTextFile(
+    join(dir, ".changes/fix-foo.md"),
+    `---\nfoo: patch\n---\n\nFix a bug.\n`,
+  );
+  await commit("chore: add a changeset");
+  await Deno.writeTextFile(
+    join(dir, ".changes/add-bar.md"),
+    `---\nbar: minor\n---\n\nAdd a feature.\n`,
+  );
+
+  const result = await inDir(dir, () =>
+    bumpWorkspaces({
+      dryRun: "git",
+      githubRepo: "denoland/deno_std",
+      releaseNoteLinks: true,
+      logger: silentLogger,
+    }));
+  assertEquals(result.updates.map((u) => [u.name, u.from, u.to]), [
+    ["@scope/bar", "2.0.0", "2.1.0"],
+    ["@scope/foo", "1.0.0", "1.0.1"],
+  ]);
+  // Only the committed changeset is linked to its commit
+  const hash = (await git(["rev-parse", "HEAD"]).text()).trim();
+  assert(result.releaseNote!.includes("- Add a feature.\n"));
+  assert(result.releaseNote!.includes(`- Fix a bug. ([${hash.slice(0, 7)}](`));
+  assert(!(await exists(join(dir, ".changes/fix-foo.md"))));
+  assert(!(await exists(join(dir, ".changes/add-bar.md"))));
+});
+
+Deno.test("bumpWorkspaces() starts each package from its own tag or version change", async () => {
+  // This test makes its own repository, as it needs the tags of the packages
+  const { dir, git, writeConfig, commit } = await createRepo({
+    foo: "1.0.0",
+    bar: "2.0.0",
+    baz: "0.1.0",
+  });
+  await commit("feat(foo): add a feature");
+  await commit("feat(baz): add a feature");
+  // foo is released with the tag
+  await git(["tag", "@scope/foo@1.0.0"]);
+  await commit("fix(foo): fix a bug");
+  await commit("feat(bar): add a feature");
+  // "version" in the other field doesn't change the start point of bar
+  await writeConfig("bar", {
+    version: "2.0.0",
+    tasks: { "version": "deno run version.ts" },
+  });
+  await commit("chore(bar): add a task");
+  // baz is released by updating the version
+  await writeConfig("baz", { version: "0.2.0" });
+  await commit("chore: release baz");
+  await commit("fix(baz): fix a bug");
+
+  const result = await inDir(dir, () =>
+    bumpWorkspaces({
+      dryRun: true,
+      perPackageStart: true,
+      logger: silentLogger,
+    }));
+  assertEquals(
+    result.updates.map((u) => [
+      u.name,
+      u.from,
+      u.to,
+      u.summary.commits.map((c) => c.subject),
+    ]),
+    [
+      ["@scope/bar", "2.0.0", "2.1.0", [
+        "feat(bar): add a feature",
+        "chore(bar): add a task",
+      ]],
+      ["@scope/baz", "0.2.0", "0.2.1", ["fix(baz): fix a bug"]],
+      ["@scope/foo", "1.0.0", "1.0.1", ["fix(foo): fix a bug"]],
+    ],
+  );
+});
+
+Deno.test("bumpWorkspaces() finds the first-time contributors from the start points of the packages", async () => {
+  const { writeConfig, commit, dir } = await createRepo({
+    foo: "1.0.0",
+    bar: "2.0.0",
+  });
+  await commit("feat(foo): add a feature", "Bob");
+  // The packages are released by updating the versions without the tags
+  await writeConfig("foo", { version: "1.1.0" });
+  await writeConfig("bar", { version: "2.0.1" });
+  await commit("chore: release");
+  await commit("fix(foo): fix a bug", "Bob");
+  await commit("feat(bar): add a feature", "Carol");
+
+  const result = await inDir(dir, () =>
+    bumpWorkspaces({
+      dryRun: true,
+      perPackageStart: true,
+      releaseNoteContributors: true,
+      logger: silentLogger,
+    }));
+  assertStringIncludes(result.releaseNote!, "- Bob\n");
+  assertStringIncludes(result.releaseNote!, "- Carol (first contribution)\n");
+});
@@ -0,0 +1,567 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import {
+  MetadataNotFoundError,
+  MissingCredentialError,
+  ProviderRequestError,
+} from "./errors.ts";
+
+/**
+ * The code hosting services where the release pull requests (merge requests
+ * in GitLab) and the releases are created.
+ *
+ * GitHub, GitLab and Gitea are supported out of the box. Self-hosted
+ * instances are supported by giving the `url` of the instance. Other services
+ * can be supported by implementing {@linkcode Provider}.
+ *
+ * @module
+ */
+
+/** The pull request or the merge request created by a {@linkcode Provider} */
+export type ChangeRequest = {
+  /** The web url of the change request */
+  url: string;
+  /** The number of the change request (`iid` in GitLab) */
+  number: number;
+};
+
+/** The parameters for opening a change request */
+export type CreateChangeRequestParams = {
+  /** The branch to merge into */
+  base: string;
+  /** The branch to merge */
+  head: string;
+  title: string;
+  body: string;
+  /** Whether to open the change request as a draft */
+  draft?: boolean;
+};
+
+/** The parameters for finding the open change request */
+export type FindChangeRequestParams = {
+  /** The branch to merge into */
+  base: string;
+  /** The branch to merge */
+  head: string;
+};
+
+/** The parameters for updating a change request */
+export type UpdateChangeRequestParams = {
+  title?: string;
+  body?: string;
+};
+
+/** The metadata which is applied to the change request after it's opened */
+export type ChangeRequestMetadata = {
+  /** The labels to add */
+  labels?: string[];
+  /** The user names of the reviewers to request */
+  reviewers?: string[];
+  /** The team slugs of the reviewers to request. This is not supported by GitLab and ignored. */
+  teamReviewers?: string[];
+  /** The user names of the assignees */
+  assignees?: string[];
+  /** The title of the open milestone */
+  milestone?: string;
+};
+
+/** The parameters for creating a release */
+export type CreateReleaseParams = {
+  /** The existing git tag of the release */
+  tag: string;
+  name: string;
+  body: string;
+};
+
+/** The code hosting service which hosts the repository. */
+export type Provider = {
+  /** The name of the service e.g. `github` */
+  name: string;
+  /** The web url of the repository e.g. `https://github.com/denoland/std` */
+  repoUrl: string;
+  /** The prefix of the change request references in the commit messages e.g. `#` of `(#123)` */
+  changeRequestPrefix: string;
+  /** Builds the web url of the commit */
+  commitUrl(hash: string): string;
+  /** Builds the web url which compares the given revisions */
+  compareUrl(from: string, to: string): string;
+  /** Builds the web url of the change request */
+  changeRequestUrl(number: number | string): string;
+  /** Opens a change request */
+  createChangeRequest(
+    params: CreateChangeRequestParams,
+  ): Promise<ChangeRequest>;
+  /** Finds the open change request from `head` to `base`. Returns undefined if not found. */
+  findChangeRequest(
+    params: FindChangeRequestParams,
+  ): Promise<ChangeRequest | undefined>;
+  /** Updates the title or the body of the existing change request. The draft state is kept. */
+  updateChangeRequest(
+    number: number,
+    params: UpdateChangeRequestParams,
+  ): Promise<ChangeRequest>;
+  /** Applies the labels, the reviewers, the assignees and the milestone to the change request */
+  applyChangeRequestMetadata(
+    number: number,
+    metadata: ChangeRequestMetadata,
+  ): Promise<void>;
+  /** Creates the release of the existing tag. Returns the web url of the release. */
+  createRelease(params: CreateReleaseParams): Promise<{ url: string }>;
+};
+
+/** The names of the built-in providers */
+export type ProviderName = "github" | "gitlab" | "gitea";
+
+/** The names of the built-in providers */
+export const PROVIDER_NAMES: readonly ProviderName[] = [
+  "github",
+  "gitlab",
+  "gitea",
+];
+
+/** The options of the built-in providers */
+export type ProviderOptions = {
+  /** The repository e.g. denoland/deno_std */
+  repo: string;
+  /** The access token of the API. Only the url builders are available without it. */
+  token?: string;
+  /** The web url of the instance e.g. `https://gitlab.example.com`. The default is the public instance of the service. */
+  url?: string;
+};
+
+/** The environment variables which provide the token, the repository and the url of the instance. */
+export const PROVIDER_ENV_VARS: Record<
+  ProviderName,
+  { token: string; repo: string; url: string }
+> = {
+  github: {
+    token: "GITHUB_TOKEN",
+    repo: "GITHUB_REPOSITORY",
+    url: "GITHUB_SERVER_URL",
+  },
+  gitlab: {
+    token: "GITLAB_TOKEN",
+    repo: "CI_PROJECT_PATH",
+    url: "CI_SERVER_URL",
+  },
+  // Gitea Actions sets the same variables as GitHub Actions
+  gitea: {
+    token: "GITEA_TOKEN",
+    repo: "GITHUB_REPOSITORY",
+    url: "GITHUB_SERVER_URL",
+  },
+};
+
+// The fields of the API responses used by the providers
+type GitHubPullRequest = { html_url: string; number: number };
+type GitLabMergeRequest = { web_url: string; iid: number; draft: boolean };
+type GiteaPullRequest = {
+  html_url: string;
+  number: number;
+  title: string;
+  state: "open" | "closed";
+};
+
+async function request<T = unknown>(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: unknown,
+): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new ProviderRequestError(method, url, res.status, await res.text());
+  }
+  return await res.json();
+}
+
+function requireToken(name: ProviderName, token: string | undefined): string {
+  if (token === undefined) {
+    throw new MissingCredentialError(PROVIDER_ENV_VARS[name].token);
+  }
+  return token;
+}
+
+/** Fetches the list API page by page until a page is not full */
+async function fetchAllPages<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  perPage: number,
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1;; page++) {
+    const pageItems = await fetchPage(page);
+    items.push(...pageItems);
+    if (pageItems.length < perPage) {
+      return items;
+    }
+  }
+}
+
+function findMilestone<T extends { title: string }>(
+  milestones: T[],
+  title: string,
+): T {
+  const milestone = milestones.find((m) => m.title === title);
+  if (!milestone) {
+    throw new MetadataNotFoundError("open milestone", title);
+  }
+  return milestone;
+}
+
+/** Creates the provider of GitHub or GitHub Enterprise Server. */
+export function createGitHubProvider(
+  { repo, token, url = "https://github.com" }: ProviderOptions,
+): Provider {
+  const repoUrl = `${url}/${repo}`;
+  const apiUrl = url === "https://github.com"
+    ? `https://api.github.com/repos/${repo}`
+    : `${url}/api/v3/repos/${repo}`;
+  const call = <T = unknown>(method: string, path: string, body?: unknown) =>
+    request<T>(method, apiUrl + path, {
+      Authorization: `Bearer ${requireToken("github", token)}`,
+      Accept: "application/vnd.github+json",
+    }, body);
+  return {
+    name: "github",
+    repoUrl,
+    changeRequestPrefix: "#",
+    commitUrl: (hash) => `${repoUrl}/commit/${hash}`,
+    compareUrl: (from, to) => `${repoUrl}/compare/${from}...${to}`,
+    changeRequestUrl: (number) => `${repoUrl}/pull/${number}`,
+    async createChangeRequest({ base, head, title, body, draft = false }) {
+      const pr = await call<GitHubPullRequest>("POST", "/pulls", {
+        base,
+        head,
+        title,
+        body,
+        draft,
+      });
+      return { url: pr.html_url, number: pr.number };
+    },
+    async findChangeRequest({ base, head }) {
+      const owner = repo.split("/")[0];
+      const query = new URLSearchParams({
+        state: "open",
+        base,
+        head: `${owner}:${head}`,
+      });
+      const [pr] = await call<GitHubPullRequest[]>("GET", `/pulls?${query}`);
+      return pr && { url: pr.html_url, number: pr.number };
+    },
+    async updateChangeRequest(number, { title, body }) {
+      const pr = await call<GitHubPullRequest>("PATCH", `/pulls/${number}`, {
+        title,
+        body,
+      });
+      return { url: pr.html_url, number: pr.number };
+    },
+    async applyChangeRequestMetadata(
+      number,
+      { labels, reviewers, teamReviewers, assignees, milestone },
+    ) {
+      if (labels?.length) {
+        await call("POST", `/issues/${number}/labels`, { labels });
+      }
+      if (reviewers?.length || teamReviewers?.length) {
+        await call("POST", `/pulls/${number}/requested_reviewers`, {
+          reviewers: reviewers ?? [],
+          team_reviewers: teamReviewers ?? [],
+        });
+      }
+      if (assignees?.length) {
+        await call("POST", `/issues/${number}/assignees`, { assignees });
+      }
+      if (milestone) {
+        const milestones = await fetchAllPages(
+          (page) =>
+            call<{ number: number; title: string }[]>(
+              "GET",
+              `/milestones?state=open&per_page=100&page=${page}`,
+            ),
+          100,
+        );
+        await call("PATCH", `/issues/${number}`, {
+          milestone: findMilestone(milestones, milestone).number,
+        });
+      }
+    },
+    async createRelease({ tag, name, body }) {
+      const release = await call<{ html_url: string }>("POST", "/releases", {
+        tag_name: tag,
+        name,
+        body,
+      });
+      return { url: release.html_url };
+    },
+  };
+}
+
+/** Creates the provider of GitLab. The change requests are merge requests. */
+export function createGitLabProvider(
+  { repo, token, url = "https://gitlab.com" }: ProviderOptions,
+): Provider {
+  const repoUrl = `${url}/${repo}`;
+  const apiUrl = `${url}/api/v4`;
+  const project = `/projects/${encodeURIComponent(repo)}`;
+  const call = <T = unknown>(method: string, path: string, body?: unknown) =>
+    request<T>(method, apiUrl + path, {
+      Authorization: `Bearer ${requireToken("gitlab", token)}`,
+    }, body);
+  const getUserIds = (usernames: string[]) =>
+    Promise.all(usernames.map(async (username) => {
+      const [user] = await call<{ id: number }[]>(
+        "GET",
+        `/users?${new URLSearchParams({ username })}`,
+      );
+      if (!user) {
+        throw new MetadataNotFoundError("user", username);
+      }
+      return user.id;
+    }));
+  return {
+    name: "gitlab",
+    repoUrl,
+    changeRequestPrefix: "!",
+    commitUrl: (hash) => `${repoUrl}/-/commit/${hash}`,
+    compareUrl: (from, to) => `${repoUrl}/-/compare/${from}...${to}`,
+    changeRequestUrl: (number) => `${repoUrl}/-/merge_requests/${number}`,
+    async createChangeRequest({ base, head, title, body, draft = false }) {
+      const mr = await call<GitLabMergeRequest>(
+        "POST",
+        `${project}/merge_requests`,
+        {
+          source_branch: head,
+          target_branch: base,
+          // GitLab marks the merge requests with this prefix as drafts
+          title: draft ? `Draft: ${title}` : title,
+          description: body,
+        },
+      );
+      return { url: mr.web_url, number: mr.iid };
+    },
+    async findChangeRequest({ base, head }) {
+      const query = new URLSearchParams({
+        state: "opened",
+        source_branch: head,
+        target_branch: base,
+      });
+      const [mr] = await call<GitLabMergeRequest[]>(
+        "GET",
+        `${project}/merge_requests?${query}`,
+      );
+      return mr && { url: mr.web_url, number: mr.iid };
+    },
+    async updateChangeRequest(number, { title, body }) {
+      const path = `${project}/merge_requests/${number}`;
+      if (
+        title !== undefined &&
+        (await call<GitLabMergeRequest>("GET", path)).draft
+      ) {
+        title = `Draft: ${title}`;
+      }
+      const mr = await call<GitLabMergeRequest>("PUT", path, {
+        title,
+        description: body,
+      });
+      return { url: mr.web_url, number: mr.iid };
+    },
+    async applyChangeRequestMetadata(
+      number,
+      { labels, reviewers, assignees, milestone },
+    ) {
+      const params: Record<string, unknown> = {};
+      if (labels?.length) {
+        params.add_labels = labels.join(",");
+      }
+      if (reviewers?.length) {
+        params.reviewer_ids = await getUserIds(reviewers);
+      }
+      if (assignees?.length) {
+        params.assignee_ids = await getUserIds(assignees);
+      }
+      if (milestone) {
+        const milestones = await call<{ id: number; title: string }[]>(
+          "GET",
+          `${project}/milestones?${new URLSearchParams({
+            state: "active",
+            title: milestone,
+          })}`,
+        );
+        params.milestone_id = findMilestone(milestones, milestone).id;
+      }
+      if (Object.keys(params).length > 0) {
+        await call("PUT", `${project}/merge_requests/${number}`, params);
+      }
+    },
+    async createRelease({ tag, name, body }) {
+      await call("POST", `${project}/releases`, {
+        tag_name: tag,
+        name,
+        description: body,
+      });
+      return { url: `${repoUrl}/-/releases/${encodeURIComponent(tag)}` };
+    },
+  };
+}
+
+/** Creates the provider of Gitea (and Forgejo). */
+export function createGiteaProvider(
+  { repo, token, url = "https://gitea.com" }: ProviderOptions,
+): Provider {
+  const repoUrl = `${url}/${repo}`;
+  const apiUrl = `${url}/api/v1/repos/${repo}`;
+  const call = <T = unknown>(method: string, path: string, body?: unknown) =>
+    request<T>(method, apiUrl + path, {
+      Authorization: `token ${requireToken("gitea", token)}`,
+    }, body);
+  return {
+    name: "gitea",
+    repoUrl,
+    changeRequestPrefix: "#",
+    commitUrl: (hash) => `${repoUrl}/commit/${hash}`,
+    compareUrl: (from, to) => `${repoUrl}/compare/${from}...${to}`,
+    changeRequestUrl: (number) => `${repoUrl}/pulls/${number}`,
+    async createChangeRequest({ base, head, title, body, draft = false }) {
+      const pr = await call<GiteaPullRequest>("POST", "/pulls", {
+        base,
+        head,
+        // Gitea marks the pull requests with this prefix as work in progress
+        title: draft ? `WIP: ${title}` : title,
+        body,
+      });
+      return { url: pr.html_url, number: pr.number };
+    },
+    async findChangeRequest({ base, head }) {
+      // The endpoint responds with the latest pull request of the branches,
+      // which can be closed, and responds with 404 if there's none. The head
+      // is matched by the wildcard, so it can contain slashes.
+      let pr: GiteaPullRequest;
+      try {
+        pr = await call<GiteaPullRequest>(
+          "GET",
+          `/pulls/${encodeURIComponent(base)}/${head}`,
+        );
+      } catch (e) {
+        if (e instanceof ProviderRequestError && e.status === 404) {
+          return undefined;
+        }
+        throw e;
+      }
+      return pr.state === "open"
+        ? { url: pr.html_url, number: pr.number }
+        : undefined;
+    },
+    async updateChangeRequest(number, { title, body }) {
+      if (
+        title !== undefined &&
+        (await call<GiteaPullRequest>("GET", `/pulls/${number}`)).title
+          .startsWith("WIP: ")
+      ) {
+        title = `WIP: ${title}`;
+      }
+      const pr = await call<GiteaPullRequest>("PATCH", `/pulls/${number}`, {
+        title,
+        body,
+      });
+      return { url: pr.html_url, number: pr.number };
+    },
+    async applyChangeRequestMetadata(
+      number,
+      { labels, reviewers, teamReviewers, assignees, milestone },
+    ) {
+      if (labels?.length) {
+        // Gitea accepts the ids of the labels
+        const repoLabels = await fetchAllPages(
+          (page) =>
+            call<{ id: number; name: string }[]>(
+              "GET",
+              `/labels?limit=50&page=${page}`,
+            ),
+          50,
+        );
+        await call("POST", `/issues/${number}/labels`, {
+          labels: labels.map((label) => {
+            const found = repoLabels.find((l) => l.name === label);
+            if (!found) {
+              throw new MetadataNotFoundError("label", label);
+            }
+            return found.id;
+          }),
+        });
+      }
+      if (reviewers?.length || teamReviewers?.length) {
+        await call("POST", `/pulls/${number}/requested_reviewers`, {
+          reviewers: reviewers ?? [],
+          team_reviewers: teamReviewers ?? [],
+        });
+      }
+      const params: Record<string, unknown> = {};
+      if (assignees?.length) {
+        params.assignees = assignees;
+      }
+      if (milestone) {
+        const milestones = await call<{ id: number; title: string }[]>(
+          "GET",
+          `/milestones?${new URLSearchParams({
+            state: "open",
+            name: milestone,
+          })}`,
+        );
+        params.milestone = findMilestone(milestones, milestone).id;
+      }
+      if (Object.keys(params).length > 0) {
+        await call("PATCH", `/issues/${number}`, params);
+      }
+    },
+    async createRelease({ tag, name, body }) {
+      const release = await call<{ html_url: string }>("POST", "/releases", {
+        tag_name: tag,
+        name,
+        body,
+      });
+      return { url: release.html_url };
+    },
+  };
+}
+
+/**
+ * Resolves the provider from the name and the options. The missing options
+ * are read from the environment variables of the provider (See
+ * {@linkcode PROVIDER_ENV_VARS}). The provider instance is returned as is.
+ *
+ * Throws {@linkcode MissingCredentialError} if the repository is not found,
+ * or the token is not found when `requireToken` is true.
+ */
+export function resolveProvider(
+  provider: ProviderName | Provider = "github",
+  { repo, token, url, requireToken = true }: Partial<ProviderOptions> & {
+    requireToken?: boolean;
+  } = {},
+): Provider {
+  if (typeof provider !== "string") {
+    return provider;
+  }
+  const env = PROVIDER_ENV_VARS[provider];
+  repo ??= Deno.env.get(env.repo);
+  if (repo === undefined) {
+    throw new MissingCredentialError(env.repo);
+  }
+  token ??= Deno.env.get(env.token);
+  if (requireToken && token === undefined) {
+    throw new MissingCredentialError(env.token);
+  }
+  url = (url ?? Deno.env.get(env.url))?.replace(/\/+$/, "");
+  const options = { repo, token, url };
+  switch (provider) {
+    case "github":
+      return createGitHubProvider(options);
+    case "gitlab":
+      return createGitLabProvider(options);
+    case "gitea":
+      return createGiteaProvider(options);
+  }
+}
@@ -0,0 +1,434 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  createGiteaProvider,
+  createGitHubProvider,
+  createGitLabProvider,
+  resolveProvider,
+} from "./provider.ts";
+import {
+  MetadataNotFoundError,
+  MissingCredentialError,
+  ProviderRequestError,
+} from "./errors.ts";
+import { withStandIn } from "./test_util.ts";
+
+Deno.test("createGitHubProvider() builds urls", () => {
+  const github = createGitHubProvider({ repo: "denoland/std" });
+  assertEquals(github.repoUrl, "https://github.com/denoland/std");
+  assertEquals(
+    github.commitUrl("abc"),
+    "https://github.com/denoland/std/commit/abc",
+  );
+  assertEquals(
+    github.compareUrl("v1", "v2"),
+    "https://github.com/denoland/std/compare/v1...v2",
+  );
+  assertEquals(
+    github.changeRequestUrl(12),
+    "https://github.com/denoland/std/pull/12",
+  );
+});
+
+Deno.test("createGitHubProvider() opens pull requests and releases", async () => {
+  await withStandIn(
+    { body: { html_url: "https://example.com/pull/3", number: 3 } },
+    async (url, requests) => {
+      const github = createGitHubProvider({
+        repo: "denoland/std",
+        token: "ghp_xxx",
+        url,
+      });
+      assertEquals(
+        await github.createChangeRequest({
+          base: "main",
+          head: "release-1",
+          title: "chore: release",
+          body: "body",
+          draft: true,
+        }),
+        { url: "https://example.com/pull/3", number: 3 },
+      );
+      await github.updateChangeRequest(3, { body: "new body" });
+      await github.createRelease({ tag: "foo@1.0.0", name: "foo", body: "" });
+      assertEquals(requests, [{
+        method: "POST",
+        path: "/api/v3/repos/denoland/std/pulls",
+        authorization: "Bearer ghp_xxx",
+        body: {
+          base: "main",
+          head: "release-1",
+          title: "chore: release",
+          body: "body",
+          draft: true,
+        },
+      }, {
+        method: "PATCH",
+        path: "/api/v3/repos/denoland/std/pulls/3",
+        authorization: "Bearer ghp_xxx",
+        body: { body: "new body" },
+      }, {
+        method: "POST",
+        path: "/api/v3/repos/denoland/std/releases",
+        authorization: "Bearer ghp_xxx",
+        body: { tag_name: "foo@1.0.0", name: "foo", body: "" },
+      }]);
+    },
+  );
+});
+
+Deno.test("createGitLabProvider() opens merge requests and releases", async () => {
+  await withStandIn(
+    { body: { web_url: "https://example.com/-/merge_requests/5", iid: 5 } },
+    async (url, requests) => {
+      const gitlab = createGitLabProvider({
+        repo: "group/std",
+        token: "glpat-xxx",
+        url,
+      });
+      assertEquals(gitlab.changeRequestPrefix, "!");
+      assertEquals(
+        gitlab.changeRequestUrl(5),
+        `${url}/group/std/-/merge_requests/5`,
+      );
+      assertEquals(
+        await gitlab.createChangeRequest({
+          base: "main",
+          head: "release-1",
+          title: "chore: release",
+          body: "body",
+          draft: true,
+        }),
+        { url: "https://example.com/-/merge_requests/5", number: 5 },
+      );
+      assertEquals(
+        await gitlab.createRelease({ tag: "foo@1.0.0", name: "foo", body: "" }),
+        { url: `${url}/group/std/-/releases/foo%401.0.0` },
+      );
+      assertEquals(requests, [{
+        method: "POST",
+        path: "/api/v4/projects/group%2Fstd/merge_requests",
+        authorization: "Bearer glpat-xxx",
+        body: {
+          source_branch: "release-1",
+          target_branch: "main",
+          title: "Draft: chore: release",
+          description: "body",
+        },
+      }, {
+        method: "POST",
+        path: "/api/v4/projects/group%2Fstd/releases",
+        authorization: "Bearer glpat-xxx",
+        body: { tag_name: "foo@1.0.0", name: "foo", description: "" },
+      }]);
+    },
+  );
+});
+
+Deno.test("createGiteaProvider() opens pull requests", async () => {
+  await withStandIn(
+    { body: { html_url: "https://example.com/pulls/7", number: 7 } },
+    async (url, requests) => {
+      const gitea = createGiteaProvider({
+        repo: "owner/std",
+        token: "xxx",
+        url,
+      });
+      assertEquals(gitea.changeRequestUrl(7), `${url}/owner/std/pulls/7`);
+      await gitea.createChangeRequest({
+        base: "main",
+        head: "release-1",
+        title: "chore: release",
+        body: "body",
+        draft: true,
+      });
+      assertEquals(requests, [{
+        method: "POST",
+        path: "/api/v1/repos/owner/std/pulls",
+        authorization: "token xxx",
+        body: {
+          base: "main",
+          head: "release-1",
+          title: "WIP: chore: release",
+          body: "body",
+        },
+      }]);
+    },
+  );
+});
+
+Deno.test("Provider finds the open change request of the branch", async () => {
+  await withStandIn(
+    { body: [{ html_url: "https://example.com/pull/3", number: 3 }] },
+    async (url, requests) => {
+      const github = createGitHubProvider({
+        repo: "denoland/std",
+        token: "x",
+        url,
+      });
+      assertEquals(
+        await github.findChangeRequest({ base: "main", head: "release" }),
+        { url: "https://example.com/pull/3", number: 3 },
+      );
+      assertEquals(
+        requests[0].path,
+        "/api/v3/repos/denoland/std/pulls?state=open&base=main&head=denoland%3Arelease",
+      );
+    },
+  );
+  await withStandIn({ body: [] }, async (url, requests) => {
+    const gitlab = createGitLabProvider({ repo: "group/std", token: "x", url });
+    assertEquals(
+      await gitlab.findChangeRequest({ base: "main", head: "release" }),
+      undefined,
+    );
+    assertEquals(
+      requests[0].path,
+      "/api/v4/projects/group%2Fstd/merge_requests?state=opened&source_branch=release&target_branch=main",
+    );
+  });
+  await withStandIn(
+    { body: { html_url: "b", number: 2, state: "open" } },
+    async (url, requests) => {
+      const gitea = createGiteaProvider({ repo: "owner/std", token: "x", url });
+      assertEquals(
+        await gitea.findChangeRequest({ base: "main", head: "release/1" }),
+        { url: "b", number: 2 },
+      );
+      assertEquals(
+        requests[0].path,
+        "/api/v1/repos/owner/std/pulls/main/release/1",
+      );
+    },
+  );
+  await withStandIn(
+    { body: { html_url: "b", number: 2, state: "closed" } },
+    async (url) => {
+      const gitea = createGiteaProvider({ repo: "owner/std", token: "x", url });
+      assertEquals(
+        await gitea.findChangeRequest({ base: "main", head: "release" }),
+        undefined,
+      );
+    },
+  );
+  await withStandIn(
+    { status: 404, body: { message: "not found" } },
+    async (url) => {
+      const gitea = createGiteaProvider({ repo: "owner/std", token: "x", url });
+      assertEquals(
+        await gitea.findChangeRequest({ base: "main", head: "release" }),
+        undefined,
+      );
+    },
+  );
+});
+
+Deno.test("createGitHubProvider() applies the metadata", async () => {
+  await withStandIn(
+    ({ path }) =>
+      path.startsWith("/api/v3/repos/denoland/std/milestones")
+        ? [{ number: 1, title: "v1" }, { number: 2, title: "v2" }]
+        : {},
+    async (url, requests) => {
+      const github = createGitHubProvider({
+        repo: "denoland/std",
+        token: "x",
+        url,
+      });
+      await github.applyChangeRequestMetadata(3, {
+        labels: ["release"],
+        teamReviewers: ["core"],
+        assignees: ["alice"],
+        milestone: "v2",
+      });
+      assertEquals(
+        requests.map(({ method, path, body }) => [method, path, body]),
+        [
+          ["POST", "/api/v3/repos/denoland/std/issues/3/labels", {
+            labels: ["release"],
+          }],
+          ["POST", "/api/v3/repos/denoland/std/pulls/3/requested_reviewers", {
+            reviewers: [],
+            team_reviewers: ["core"],
+          }],
+          ["POST", "/api/v3/repos/denoland/std/issues/3/assignees", {
+            assignees: ["alice"],
+          }],
+          [
+            "GET",
+            "/api/v3/repos/denoland/std/milestones?state=open&per_page=100&page=1",
+            undefined,
+          ],
+          ["PATCH", "/api/v3/repos/denoland/std/issues/3", { milestone: 2 }],
+        ],
+      );
+      await assertRejects(
+        () => github.applyChangeRequestMetadata(3, { milestone: "v3" }),
+        MetadataNotFoundError,
+        `The open milestone "v3" is not found in the repository.`,
+      );
+    },
+  );
+});
+
+Deno.test("Provider finds the metadata in the later pages", async () => {
+  await withStandIn(
+    ({ path }) =>
+      path.endsWith("page=1")
+        ? Array.from({ length: 100 }, (_, i) => ({ number: i, title: `x${i}` }))
+        : path.endsWith("page=2")
+        ? [{ number: 100, title: "v1" }]
+        : {},
+    async (url, requests) => {
+      const github = createGitHubProvider({
+        repo: "denoland/std",
+        token: "x",
+        url,
+      });
+      await github.applyChangeRequestMetadata(3, { milestone: "v1" });
+      assertEquals(requests.at(-1)?.body, { milestone: 100 });
+    },
+  );
+  await withStandIn(
+    ({ path }) =>
+      path.endsWith("page=1")
+        ? Array.from({ length: 50 }, (_, i) => ({ id: i, name: `x${i}` }))
+        : path.endsWith("page=2")
+        ? [{ id: 50, name: "release" }]
+        : {},
+    async (url, requests) => {
+      const gitea = createGiteaProvider({ repo: "owner/std", token: "x", url });
+      await gitea.applyChangeRequestMetadata(3, { labels: ["release", "x1"] });
+      assertEquals(
+        requests.map(({ method, path, body }) => [method, path, body]),
+        [
+          ["GET", "/api/v1/repos/owner/std/labels?limit=50&page=1", undefined],
+          ["GET", "/api/v1/repos/owner/std/labels?limit=50&page=2", undefined],
+          ["POST", "/api/v1/repos/owner/std/issues/3/labels", {
+            labels: [50, 1],
+          }],
+        ],
+      );
+    },
+  );
+});
+
+Deno.test("createGitLabProvider() applies the metadata", async () => {
+  await withStandIn(
+    ({ path }) =>
+      path.startsWith("/api/v4/users")
+        ? [{ id: path.endsWith("alice") ? 10 : 20 }]
+        : path.startsWith("/api/v4/projects/group%2Fstd/milestones")
+        ? [{ id: 5, title: "v1" }]
+        : {},
+    async (url, requests) => {
+      const gitlab = createGitLabProvider({
+        repo: "group/std",
+        token: "x",
+        url,
+      });
+      await gitlab.applyChangeRequestMetadata(3, {
+        labels: ["release", "bot"],
+        reviewers: ["alice"],
+        teamReviewers: ["core"],
+        assignees: ["bob"],
+        milestone: "v1",
+      });
+      assertEquals(requests.at(-1), {
+        method: "PUT",
+        path: "/api/v4/projects/group%2Fstd/merge_requests/3",
+        authorization: "Bearer x",
+        body: {
+          add_labels: "release,bot",
+          reviewer_ids: [10],
+          assignee_ids: [20],
+          milestone_id: 5,
+        },
+      });
+    },
+  );
+});
+
+Deno.test("Provider keeps the draft state on update", async () => {
+  await withStandIn(
+    ({ method }) =>
+      method === "GET"
+        ? { draft: true }
+        : { web_url: "https://example.com/-/merge_requests/5", iid: 5 },
+    async (url, requests) => {
+      const gitlab = createGitLabProvider({
+        repo: "group/std",
+        token: "x",
+        url,
+      });
+      await gitlab.updateChangeRequest(5, { title: "chore: release" });
+      assertEquals(requests.at(-1)?.body, { title: "Draft: chore: release" });
+    },
+  );
+  await withStandIn(
+    ({ method }) =>
+      method === "GET"
+        ? { title: "WIP: chore: release 2024.01.01" }
+        : { html_url: "https://example.com/pulls/7", number: 7 },
+    async (url, requests) => {
+      const gitea = createGiteaProvider({ repo: "owner/std", token: "x", url });
+      await gitea.updateChangeRequest(7, { title: "chore: release" });
+      assertEquals(requests.at(-1)?.body, { title: "WIP: chore: release" });
+    },
+  );
+});
+
+Deno.test("Provider throws when the request fails", async () => {
+  await withStandIn(
+    { status: 422, body: { message: "Validation Failed" } },
+    async (url) => {
+      const github = createGitHubProvider({ repo: "a/b", token: "x", url });
+      await assertRejects(
+        () => github.createRelease({ tag: "v1", name: "v1", body: "" }),
+        ProviderRequestError,
+        "failed with 422",
+      );
+    },
+  );
+  await assertRejects(
+    () =>
+      createGitLabProvider({ repo: "a/b" }).createRelease({
+        tag: "v1",
+        name: "v1",
+        body: "",
+      }),
+    MissingCredentialError,
+    "GITLAB_TOKEN is not set.",
+  );
+});
+
+Deno.test("resolveProvider()", () => {
+  const gitea = resolveProvider("gitea", {
+    repo: "owner/std",
+    token: "xxx",
+    url: "https://gitea.example.com/",
+  });
+  assertEquals(gitea.name, "gitea");
+  assertEquals(gitea.repoUrl, "https://gitea.example.com/owner/std");
+  assertEquals(
+    resolveProvider("gitlab", { repo: "group/std", requireToken: false })
+      .repoUrl,
+    "https://gitlab.com/group/std",
+  );
+  assertEquals(resolveProvider(gitea), gitea);
+
+  const repo = Deno.env.get("CI_PROJECT_PATH");
+  Deno.env.delete("CI_PROJECT_PATH");
+  try {
+    assertThrows(
+      () => resolveProvider("gitlab", { token: "xxx" }),
+      MissingCredentialError,
+      "CI_PROJECT_PATH is not set.",
+    );
+  } finally {
+    if (repo !== undefined) {
+      Deno.env.set("CI_PROJECT_PATH", repo);
+    }
+  }
+});
@@ -0,0 +1,190 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { $ } from "@david/dax";
+import { cyan, magenta } from "@std/fmt/colors";
+import { dirname } from "@std/path/dirname";
+import { join } from "@std/path/join";
+import {
+  type Provider,
+  type ProviderName,
+  resolveProvider,
+} from "./provider.ts";
+import {
+  createGitReader,
+  createTagName,
+  DEFAULT_TAG_FORMAT,
+  extractReleaseSection,
+  getBumpConfig,
+  getModule,
+  getWorkspaceModules,
+  type Logger,
+  pathProp,
+  runCommand,
+} from "./util.ts";
+
+/** The options of {@linkcode releaseWorkspaces} */
+export type ReleaseWorkspacesOptions = {
+  /** The merge commit of the release pull request. The versions are compared with its first parent. The default is `HEAD` */
+  ref?: string;
+  /** The root directory of the workspace. */
+  root?: string;
+  /** The format of the git tags. `{{name}}` and `{{version}}` are replaced with the module name and the version. The default is `tagFormat` in the config or {@linkcode DEFAULT_TAG_FORMAT} */
+  tagFormat?: string;
+  /** The path to release note markdown file. The default is `releaseNotePath` in the config or `Releases.md` */
+  releaseNotePath?: string;
+  /** The token of the code hosting service e.g. ghp_xxxxxxxxxxxx. The default is the token env var of the provider, e.g. `GITHUB_TOKEN` */
+  githubToken?: string;
+  /** The repository e.g. denoland/deno_std. The default is the repository env var of the provider, e.g. `GITHUB_REPOSITORY` */
+  githubRepo?: string;
+  /** The code hosting service where the releases are created. The default is `"github"` */
+  provider?: ProviderName | Provider;
+  /** The web url of the self-hosted instance of the provider e.g. https://gitlab.example.com. The default is the url env var of the provider or the public instance. */
+  providerUrl?: string;
+  /** Doesn't create the tags and the releases if true. */
+  dryRun?: boolean;
+  /** The logger for printing the progress. The default is `console`. */
+  logger?: Logger;
+};
+
+/** The release of a module created by {@linkcode releaseWorkspaces} */
+export type Release = {
+  /** The name of the module */
+  name: string;
+  /** The released version */
+  version: string;
+  /** The name of the git tag */
+  tag: string;
+  /** The body of the release. This is the section of the module in the release note. */
+  body: string;
+  /** The url of the release. Undefined if the release is not created. */
+  url?: string;
+};
+
+/** The result of {@linkcode releaseWorkspaces} */
+export type ReleaseWorkspacesResult = {
+  /** The releases of the modules whose versions are changed in the merge commit */
+  releases: Release[];
+};
+
+/**
+ * Tags and releases the modules after the release pull request is merged.
+ *
+ * The workflow of this function is:
+ * - Read the versions of the modules at the given `ref` and its first parent.
+ * - Create git tags of the modules whose versions are changed, and push them.
+ * - Create the releases of the tags on the provider. The bodies are the sections of the
+ *   modules in the release note (or CHANGELOG.md of the modules).
+ *
+ * The tags which already exist in the remote `origin` are skipped, so that
+ * this can be run again after a failure.
+ */
+export async function releaseWorkspaces(
+  {
+    ref = "HEAD",
+    root = ".",
+    tagFormat,
+    releaseNotePath,
+    githubToken,
+    githubRepo,
+    provider,
+    providerUrl,
+    dryRun = false,
+    logger = console,
+  }: ReleaseWorkspacesOptions = {},
+): Promise<ReleaseWorkspacesResult> {
+  const hash = await $`git rev-parse ${ref}`.text();
+
+  const [_oldConfigPath, oldModules] = await getWorkspaceModules(
+    root,
+    createGitReader(`${hash}~1`),
+  );
+  const reader = createGitReader(hash);
+  const [_configPath, modules] = await getWorkspaceModules(root, reader);
+  const config = await getBumpConfig(root, reader);
+  const releaseNote = await reader.readTextFile(
+    join(root, releaseNotePath ?? config.releaseNotePath ?? "Releases.md"),
+  );
+  const changed = modules.filter((module) =>
+    getModule(module.name, oldModules)?.version !== module.version
+  );
+  const changelogs: Record<string, string | undefined> = {};
+  for (const module of changed) {
+    changelogs[module.name] = await reader.readTextFile(
+      join(dirname(module[pathProp]), "CHANGELOG.md"),
+    );
+  }
+
+  // The tags are read from the remote, as they are often not fetched in the
+  // clones of CI
+  const remoteTags = new Set(
+    (await $`git ls-remote --tags origin`.lines())
+      .filter((line) => line !== "")
+      .map((line) =>
+        line.split("\t")[1].replace(/^refs\/tags\//, "").replace(/\^\{\}$/, "")
+      ),
+  );
+
+  tagFormat ??= config.tagFormat ?? DEFAULT_TAG_FORMAT;
+  const releases: Release[] = [];
+  for (const module of changed) {
+    const tag = createTagName(tagFormat, module);
+    if (remoteTags.has(tag)) {
+      logger.log(`The tag ${magenta(tag)} already exists. Skipping.`);
+      continue;
+    }
+    releases.push({
+      name: module.name,
+      version: module.version,
+      tag,
+      body: extractReleaseSection(
+        module,
+        releaseNote,
+        changelogs[module.name],
+      ) ?? "",
+    });
+  }
+
+  if (releases.length === 0) {
+    logger.log("No modules to release.");
+    return { releases };
+  }
+  logger.log(
+    `Releasing ${cyan(releases.length.toString())} modules:`,
+  );
+  for (const release of releases) {
+    logger.log(`  ${release.tag}`);
+  }
+
+  if (dryRun) {
+    for (const release of releases) {
+      logger.log();
+      logger.log(cyan(release.tag));
+      logger.log(release.body);
+    }
+    return { releases };
+  }
+
+  const host = resolveProvider(provider, {
+    repo: githubRepo,
+    token: githubToken,
+    url: providerUrl,
+  });
+
+  for (const { tag } of releases) {
+    // The tag can exist locally if the previous run failed before pushing it
+    await runCommand($`git tag --force ${tag} ${hash}`, logger);
+  }
+  await runCommand($`git push origin ${releases.map((r) => r.tag)}`, logger);
+
+  for (const release of releases) {
+    logger.log(`Creating a release of ${magenta(release.tag)}.`);
+    const created = await host.createRelease({
+      tag: release.tag,
+      name: release.tag,
+      body: release.body,
+    });
+    logger.log("New release:", cyan(created.url));
+    release.url = created.url;
+  }
+  return { releases };
+}
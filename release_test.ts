@@ -0,0 +1,130 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { $ } from "@david/dax";
+import { assertEquals } from "@std/assert";
+import { join } from "@std/path/join";
+import { createGitHubProvider } from "./provider.ts";
+import { releaseWorkspaces } from "./release.ts";
+import { withStandIn } from "./test_util.ts";
+import { silentLogger } from "./util.ts";
+
+const RELEASE_NOTE = `### 2024.05.02
+
+#### @scope/foo 1.1.0 (minor)
+
+- feat(foo): add a feature
+
+#### @scope/bar 2.0.1 (patch)
+
+- fix(bar): fix a bug
+`;
+
+/**
+ * Creates the repository whose HEAD is the merge commit of a release pull
+ * request, which bumps @scope/foo to 1.1.0 and @scope/bar to 2.0.1. The tag of
+ * @scope/bar only exists in the remote.
+ */
+async function createReleasedRepo(): Promise<string> {
+  const dir = await Deno.makeTempDir();
+  const remote = await Deno.makeTempDir();
+  const git = (args: string[]) =>
+    $`git -c user.name=Alice -c user.email=alice@example.com ${args}`.cwd(dir)
+      .quiet();
+  const writeModules = async (foo: string, bar: string) => {
+    for (const [name, version] of [["foo", foo], ["bar", bar]]) {
+      await Deno.mkdir(join(dir, name), { recursive: true });
+      await Deno.writeTextFile(
+        join(dir, name, "deno.json"),
+        JSON.stringify({ name: `@scope/${name}`, version }),
+      );
+    }
+  };
+  await $`git init -q --bare`.cwd(remote).quiet();
+  await git(["init", "-q", "-b", "main"]);
+  await git(["remote", "add", "origin", remote]);
+  await Deno.writeTextFile(
+    join(dir, "deno.json"),
+    JSON.stringify({ workspace: ["./foo", "./bar"] }),
+  );
+  await writeModules("1.0.0", "2.0.0");
+  await git(["add", "."]);
+  await git(["commit", "-q", "-m", "initial"]);
+  await writeModules("1.1.0", "2.0.1");
+  await Deno.writeTextFile(join(dir, "Releases.md"), RELEASE_NOTE);
+  await git(["add", "."]);
+  await git(["commit", "-q", "-m", "chore: release 2024.05.02"]);
+  await git(["tag", "@scope/bar@2.0.1"]);
+  await git(["push", "-q", "origin", "main", "@scope/bar@2.0.1"]);
+  await git(["tag", "-d", "@scope/bar@2.0.1"]);
+  return dir;
+}
+
+async function inDir<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const cwd = Deno.cwd();
+  Deno.chdir(dir);
+  try {
+    return await fn();
+  } finally {
+    Deno.chdir(cwd);
+  }
+}
+
+Deno.test("releaseWorkspaces() tags and releases the bumped modules", async () => {
+  const dir = await createReleasedRepo();
+  await withStandIn(
+    { body: { html_url: "https://example.com/releases/1" } },
+    async (url, requests) => {
+      const provider = createGitHubProvider({
+        repo: "owner/repo",
+        token: "x",
+        url,
+      });
+      const { releases } = await inDir(
+        dir,
+        () => releaseWorkspaces({ provider, logger: silentLogger }),
+      );
+      assertEquals(releases, [{
+        name: "@scope/foo",
+        version: "1.1.0",
+        tag: "@scope/foo@1.1.0",
+        body: "- feat(foo): add a feature",
+        url: "https://example.com/releases/1",
+      }]);
+      assertEquals(requests, [{
+        method: "POST",
+        path: "/api/v3/repos/owner/repo/releases",
+        authorization: "Bearer x",
+        body: {
+          tag_name: "@scope/foo@1.1.0",
+          name: "@scope/foo@1.1.0",
+          body: "- feat(foo): add a feature",
+        },
+      }]);
+      const remoteTags = await $`git ls-remote --tags origin`.cwd(dir).text();
+      assertEquals(
+        remoteTags.split("\n").map((line) => line.split("\t")[1]).sort(),
+        ["refs/tags/@scope/bar@2.0.1", "refs/tags/@scope/foo@1.1.0"],
+      );
+
+      // The second run skips the tags pushed by the first run
+      const second = await inDir(
+        dir,
+        () => releaseWorkspaces({ provider, logger: silentLogger }),
+      );
+      assertEquals(second.releases, []);
+      assertEquals(requests.length, 1);
+    },
+  );
+});
+
+Deno.test("releaseWorkspaces() doesn't tag in dry run", async () => {
+  const dir = await createReleasedRepo();
+  const { releases } = await inDir(
+    dir,
+    () => releaseWorkspaces({ dryRun: true, logger: silentLogger }),
+  );
+  assertEquals(releases.map((r) => [r.tag, r.body, r.url]), [
+    ["@scope/foo@1.1.0", "- feat(foo): add a feature", undefined],
+  ]);
+  assertEquals(await $`git tag --list`.cwd(dir).text(), "");
+});
@@ -0,0 +1,123 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { InvalidTemplateError } from "./errors.ts";
+
+/**
+ * A minimal template engine which supports a subset of
+ * [Mustache](https://mustache.github.io/mustache.5.html) syntax:
+ *
+ * - `{{name}}` and `{{a.b.c}}` insert the values. `{{.}}` inserts the current value.
+ * - `{{#name}}...{{/name}}` renders the block for each item of an array, or
+ *   once if the value is truthy.
+ * - `{{^name}}...{{/name}}` renders the block if the value is falsy or an empty array.
+ *
+ * The values are inserted without escaping, as the output is markdown.
+ *
+ * @module
+ */
+
+type Node =
+  | string
+  | { type: "var"; name: string }
+  | { type: "section"; name: string; inverted: boolean; children: Node[] };
+
+const RE_TAG = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+// Section tags on their own lines don't leave empty lines in the output
+const RE_STANDALONE = /^[ \t]*(\{\{\s*[#^/]\s*[\w.]+\s*\}\})[ \t]*\r?\n/gm;
+
+function parse(template: string): Node[] {
+  template = template.replace(RE_STANDALONE, "$1");
+  const root: Node[] = [];
+  const stack: { name: string; children: Node[] }[] = [
+    { name: "", children: root },
+  ];
+  let last = 0;
+  for (const match of template.matchAll(RE_TAG)) {
+    const [tag, kind, name] = match;
+    const { children } = stack.at(-1)!;
+    if (match.index > last) {
+      children.push(template.slice(last, match.index));
+    }
+    last = match.index + tag.length;
+    if (kind === "#" || kind === "^") {
+      const section = {
+        type: "section" as const,
+        name,
+        inverted: kind === "^",
+        children: [],
+      };
+      children.push(section);
+      stack.push(section);
+    } else if (kind === "/") {
+      if (stack.length === 1 || stack.at(-1)!.name !== name) {
+        throw new InvalidTemplateError(`Unexpected closing tag: ${tag}`);
+      }
+      stack.pop();
+    } else {
+      children.push({ type: "var", name });
+    }
+  }
+  if (stack.length > 1) {
+    throw new InvalidTemplateError(
+      `The section "${stack.at(-1)!.name}" is not closed.`,
+    );
+  }
+  if (last < template.length) {
+    root.push(template.slice(last));
+  }
+  return root;
+}
+
+function lookup(name: string, contexts: unknown[]): unknown {
+  if (name === ".") {
+    return contexts.at(-1);
+  }
+  const [first, ...rest] = name.split(".");
+  // Finds the first segment from the innermost context
+  let value = contexts.findLast((c) =>
+    typeof c === "object" && c !== null && first in c
+  ) as Record<string, unknown> | undefined;
+  let result: unknown = value?.[first];
+  for (const key of rest) {
+    value = result as Record<string, unknown> | undefined;
+    result = typeof value === "object" && value !== null
+      ? value[key]
+      : undefined;
+  }
+  return result;
+}
+
+function render(nodes: Node[], contexts: unknown[]): string {
+  let out = "";
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      out += node;
+    } else if (node.type === "var") {
+      const value = lookup(node.name, contexts);
+      out += value === undefined || value === null ? "" : String(value);
+    } else {
+      const value = lookup(node.name, contexts);
+      const empty = !value || (Array.isArray(value) && value.length === 0);
+      if (node.inverted) {
+        out += empty ? render(node.children, contexts) : "";
+      } else if (empty) {
+        continue;
+      } else if (Array.isArray(value)) {
+        for (const item of value) {
+          out += render(node.children, [...contexts, item]);
+        }
+      } else {
+        out += render(node.children, [...contexts, value]);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Renders the given template with the given context.
+ * Throws {@linkcode InvalidTemplateError} if the template is malformed.
+ */
+export function renderTemplate(template: string, context: unknown): string {
+  return render(parse(template), [context]);
+}
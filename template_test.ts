@@ -0,0 +1,69 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { renderTemplate } from "./template.ts";
+import { InvalidTemplateError } from "./errors.ts";
+
+Deno.test("renderTemplate() renders variables", () => {
+  assertEquals(
+    renderTemplate("{{ name }} {{version}} {{a.b}} {{unknown}}", {
+      name: "@scope/foo",
+      version: "1.0.0",
+      a: { b: 1 },
+    }),
+    "@scope/foo 1.0.0 1 ",
+  );
+});
+
+Deno.test("renderTemplate() renders sections", () => {
+  const template = `### {{title}}
+{{#updates}}
+
+#### {{name}} {{to}}
+{{#commits}}
+- {{subject}} ({{title}})
+{{/commits}}
+{{^commits}}
+- no commits
+{{/commits}}
+{{/updates}}
+{{#tags}}{{.}},{{/tags}}
+`;
+  assertEquals(
+    renderTemplate(template, {
+      title: "1970.01.01",
+      updates: [
+        {
+          name: "@scope/foo",
+          to: "1.1.0",
+          commits: [{ subject: "feat(foo): a" }, { subject: "fix(foo): b" }],
+        },
+        { name: "@scope/bar", to: "1.0.1", commits: [] },
+      ],
+      tags: ["feat", "fix"],
+    }),
+    `### 1970.01.01
+
+#### @scope/foo 1.1.0
+- feat(foo): a (1970.01.01)
+- fix(foo): b (1970.01.01)
+
+#### @scope/bar 1.0.1
+- no commits
+feat,fix,
+`,
+  );
+});
+
+Deno.test("renderTemplate() throws with malformed template", () => {
+  assertThrows(
+    () => renderTemplate("{{#updates}}", {}),
+    InvalidTemplateError,
+    `The section "updates" is not closed.`,
+  );
+  assertThrows(
+    () => renderTemplate("{{#updates}}{{/commits}}", {}),
+    InvalidTemplateError,
+    "Unexpected closing tag: {{/commits}}",
+  );
+});
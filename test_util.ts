@@ -0,0 +1,45 @@
+// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+
+/** The request received by the stand-in of {@linkcode withStandIn} */
+export type RecordedRequest = {
+  method: string;
+  path: string;
+  authorization: string | null;
+  body: unknown;
+};
+
+/**
+ * Starts a local HTTP server which stands in for the API of the code hosting
+ * service. The server responds with the given JSON (or the JSON returned by
+ * the given function for each request), and records the requests.
+ */
+export async function withStandIn(
+  response:
+    | { status?: number; body: unknown }
+    | ((req: RecordedRequest) => unknown),
+  fn: (url: string, requests: RecordedRequest[]) => Promise<void>,
+) {
+  const requests: RecordedRequest[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (req) => {
+      const { pathname, search } = new URL(req.url);
+      const recorded = {
+        method: req.method,
+        path: pathname + search,
+        authorization: req.headers.get("Authorization"),
+        body: req.body ? await req.json() : undefined,
+      };
+      requests.push(recorded);
+      if (typeof response === "function") {
+        return Response.json(response(recorded));
+      }
+      return Response.json(response.body, { status: response.status ?? 200 });
+    },
+  );
+  try {
+    await fn(`http://127.0.0.1:${server.addr.port}`, requests);
+  } finally {
+    await server.shutdown();
+  }
+}
@@ -1,15 +1,33 @@
 // Copyright 2024 the Deno authors. All rights reserved. MIT license.
 
+import { $, type CommandBuilder } from "@david/dax";
 import { parse as parseJsonc } from "@std/jsonc/parse";
+import { expandGlob as expandFsGlob } from "@std/fs/expand-glob";
+import { basename } from "@std/path/basename";
+import { globToRegExp } from "@std/path/glob-to-regexp";
+import { isAbsolute } from "@std/path/is-absolute";
+import { isGlob } from "@std/path/is-glob";
 import { join } from "@std/path/join";
+import { relative } from "@std/path/relative";
 import { resolve } from "@std/path/resolve";
 import {
+  equals,
   format as formatSemver,
+  greaterThan,
   increment,
   parse as parseSemVer,
+  satisfies,
   type SemVer,
+  tryParse as tryParseSemVer,
+  tryParseRange,
 } from "@std/semver";
-import { red } from "@std/fmt/colors";
+import {
+  ConfigNotFoundError,
+  InvalidConfigError,
+  InvalidVersionOverrideError,
+} from "./errors.ts";
+import { createGitHubProvider, type Provider } from "./provider.ts";
+import { renderTemplate } from "./template.ts";
 
 export type VersionUpdate = "major" | "minor" | "patch" | "prerelease";
 
@@ -17,16 +35,50 @@ export type Commit = {
   subject: string;
   body: string;
   hash: string;
+  /** The author of the commit. This is undefined for the commits made by this tool. */
+  author?: CommitAuthor;
+};
+
+export type CommitAuthor = {
+  name: string;
+  email: string;
 };
 
 export type CommitWithTag = Commit & { tag: string };
 
 export const pathProp = Symbol.for("path");
+export const packageJsonPathProp = Symbol.for("packageJsonPath");
+export const denoConfigPathProp = Symbol.for("denoConfigPath");
 
 export type WorkspaceModule = {
   name: string;
   version: string;
+  imports?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  /** The config of the tool in the member config file */
+  bumpWorkspaces?: {
+    /** Excludes the module from the version bumps e.g. the private or frozen modules */
+    exclude?: boolean;
+  };
+  /** The path of the config file which declares the version */
   [pathProp]: string;
+  /** The path of package.json, if the module has one */
+  [packageJsonPathProp]?: string;
+  /** The path of deno.json(c), if the module has one */
+  [denoConfigPathProp]?: string;
+};
+
+export type WorkspaceDependency = {
+  /** The name of the module which has the dependency */
+  dependent: string;
+  /** The name of the depended module */
+  dependency: string;
+  /** The location of the specifier in the config file of the dependent module.
+   * This is undefined when the dependency is resolved via the root import map. */
+  location?: { path: string; keyPath: string[] };
+  /** The declared version range of the dependency */
+  range: string;
 };
 
 export type VersionBump = {
@@ -46,7 +98,8 @@ export type Diagnostic =
   | UnknownCommit
   | UnknownRangeCommit
   | SkippedCommit
-  | MissingRange;
+  | MissingRange
+  | ExcludedModuleCommit;
 
 export type UnknownCommit = {
   type: "unknown_commit";
@@ -72,6 +125,12 @@ export type SkippedCommit = {
   reason: string;
 };
 
+export type ExcludedModuleCommit = {
+  type: "excluded_module_commit";
+  commit: Commit;
+  reason: string;
+};
+
 export type AppliedVersionBump = {
   oldVersion: string;
   newVersion: string;
@@ -80,17 +139,92 @@ export type AppliedVersionBump = {
 };
 
 export type VersionUpdateResult = {
+  /** The name of the module */
+  name: string;
   from: string;
   to: string;
   diff: VersionUpdate;
   path: string;
   summary: VersionBumpSummary;
+  /** Set when the version is given explicitly instead of computed from the commits */
+  override?: VersionOverride;
+  /** The version group which the module belongs to */
+  group?: VersionGroup;
 };
 
+/** The logger for printing the progress. `console` satisfies this interface. */
+export type Logger = {
+  log(...data: unknown[]): void;
+  info(...data: unknown[]): void;
+  warn(...data: unknown[]): void;
+  table(tabularData: unknown, properties?: string[]): void;
+};
+
+/** The logger which prints nothing. */
+export const silentLogger: Logger = {
+  log() {},
+  info() {},
+  warn() {},
+  table() {},
+};
+
+/**
+ * Runs the command without printing its output to the terminal. The output is
+ * passed to the logger instead, so the output of the program (e.g. `--json`)
+ * is not mixed with it. Throws with the output if the command fails.
+ */
+export async function runCommand(
+  command: CommandBuilder,
+  logger: Logger,
+): Promise<void> {
+  const result = await command.quiet().noThrow();
+  const output = `${result.stdout}${result.stderr}`.trim();
+  if (result.code !== 0) {
+    throw new Error(`The command exited with code ${result.code}:\n${output}`);
+  }
+  if (output) {
+    logger.log(output);
+  }
+}
+
 const RE_DEFAULT_PATTERN = /^([^:()]+)(?:\((.+)\))?(\!)?: (.*)$/;
 const REGEXP_UNSTABLE_SCOPE = /^(unstable\/(.+)|(.+)\/unstable)$/;
+const RE_BREAKING_CHANGE_FOOTER = /^BREAKING[ -]CHANGE: ?/;
+// The footer tokens of Conventional Commits e.g. `Refs: #123` or `Fixes #123`
+const RE_FOOTER_TOKEN = /^(?:[\w-]+: |[\w-]+ #|BREAKING[ -]CHANGE: ?)/;
+
+/**
+ * Returns the text of `BREAKING CHANGE:` (or `BREAKING-CHANGE:`) footer in the
+ * commit body, or undefined if there's no such footer. The text continues until
+ * the next footer or the end of the body.
+ */
+export function parseBreakingChangeFooter(body: string): string | undefined {
+  const lines = body.split(/\r?\n/);
+  const start = lines.findIndex((line) => RE_BREAKING_CHANGE_FOOTER.test(line));
+  if (start === -1) {
+    return undefined;
+  }
+  const text = [lines[start].replace(RE_BREAKING_CHANGE_FOOTER, "")];
+  for (const line of lines.slice(start + 1)) {
+    if (RE_FOOTER_TOKEN.test(line)) {
+      break;
+    }
+    text.push(line);
+  }
+  return text.join("\n").trim();
+}
+
+const RE_RELEASE_AS_FOOTER = /^Release-As: *(\S+)\s*$/m;
 
-type VersionBumpKind = "major" | "minor" | "patch";
+/**
+ * Returns the version of `Release-As:` footer in the commit body, or undefined
+ * if there's no such footer.
+ */
+export function parseReleaseAsFooter(body: string): string | undefined {
+  return RE_RELEASE_AS_FOOTER.exec(body)?.[1];
+}
+
+export type VersionBumpKind = "major" | "minor" | "patch";
 // Defines the version bump for each tag.
 const TAG_TO_VERSION: Record<string, VersionBumpKind> = {
   BREAKING: "major",
@@ -107,7 +241,6 @@ const TAG_TO_VERSION: Record<string, VersionBumpKind> = {
 const POST_MODULE_TO_VERSION: Record<string, VersionBumpKind> = {
   "!": "major",
 };
-const TAG_PRIORITY = Object.keys(TAG_TO_VERSION);
 
 export const DEFAULT_RANGE_REQUIRED = [
   "BREAKING",
@@ -117,9 +250,380 @@ export const DEFAULT_RANGE_REQUIRED = [
   "deprecation",
 ];
 
+/** The rules for detecting version bumps from commit messages. */
+export type BumpRules = {
+  /** The version bump for each tag. The order of the keys is used as the priority of the tags. */
+  tags: Record<string, VersionBumpKind>;
+  /** The tags which require scopes. */
+  scopeRequired: string[];
+  /** The tags which are ignored. */
+  ignoredTags: string[];
+  /** The patterns of commit subjects which are skipped. */
+  skipSubjects: RegExp[];
+};
+
+export const DEFAULT_BUMP_RULES: BumpRules = {
+  tags: TAG_TO_VERSION,
+  scopeRequired: DEFAULT_RANGE_REQUIRED,
+  ignoredTags: [],
+  skipSubjects: [
+    // version bump commits
+    /^v?\d+\.\d+\.\d+/,
+    // release commits
+    /^Release \d+\.\d+\.\d+/,
+  ],
+};
+
+/** The config of the tool, given as `bumpWorkspaces` field in the root deno.json(c) or package.json. */
+export type BumpConfig = {
+  /** The rules for detecting version bumps. */
+  rules: BumpRules;
+  /** The path to release note markdown file. */
+  releaseNotePath?: string;
+  /** Whether to write the release note at the root. */
+  rootReleaseNote?: boolean;
+  /** Whether to write CHANGELOG.md in each package directory. */
+  packageChangelogs?: boolean;
+  /** The template of the release note. In the config file, this is the path to
+   * the template file relative to the root, and {@linkcode getBumpConfig}
+   * replaces it with the content of the file. */
+  releaseNoteTemplate?: string;
+  /** The template of the pull request body. This is given in the same way as `releaseNoteTemplate`. */
+  prBodyTemplate?: string;
+  /** The sections for grouping the commits in the release notes. In the
+   * config file, `true` means {@linkcode DEFAULT_RELEASE_NOTE_SECTIONS}. */
+  releaseNoteSections?: ReleaseNoteSection[];
+  /** Whether to link the pull requests and the commits in the release notes. */
+  releaseNoteLinks?: boolean;
+  /** Whether to add the list of the contributors to the release note. */
+  releaseNoteContributors?: boolean;
+  /** The format of the git tags created after the release. See {@linkcode DEFAULT_TAG_FORMAT}. */
+  tagFormat?: string;
+  /** Whether to start from the latest tag (or the last version change) of each module. */
+  perPackageStart?: boolean;
+  /** The stable name of the release branch. The open release pull request of the branch is updated on the later runs. */
+  releaseBranch?: string;
+  /** The prerelease identifier of the channel which the bumps enter e.g. `rc`. */
+  prerelease?: string;
+  /** The labels of the release pull request. */
+  prLabels?: string[];
+  /** The user names of the reviewers requested for the release pull request. */
+  prReviewers?: string[];
+  /** The team slugs of the reviewers requested for the release pull request. */
+  prTeamReviewers?: string[];
+  /** The user names of the assignees of the release pull request. */
+  prAssignees?: string[];
+  /** The title of the milestone of the release pull request. */
+  prMilestone?: string;
+  /** Whether to open the release pull request as a draft. */
+  prDraft?: boolean;
+  /** The names of the modules excluded from the version bumps. `*` matches any characters e.g. `@scope/internal-*`. */
+  exclude?: string[];
+  /** The groups of the module names which always share the same version. `*` matches any characters. */
+  fixed?: string[][];
+  /** The groups of the module names whose updated members are bumped at least by the largest bump among them. `*` matches any characters. */
+  linked?: string[][];
+  /** The directory of the changeset files relative to the root. */
+  changesetDir?: string;
+  /** How the changesets are combined with the commits. `merge` adds the bumps of the changesets to the ones of the commits, and `replace` ignores the commit messages. */
+  changesetMode?: "merge" | "replace";
+};
+
+const BUMP_CONFIG_KEYS = [
+  "tags",
+  "scopeRequired",
+  "ignoredTags",
+  "skipSubjects",
+  "releaseNotePath",
+  "rootReleaseNote",
+  "packageChangelogs",
+  "releaseNoteTemplate",
+  "prBodyTemplate",
+  "releaseNoteSections",
+  "releaseNoteLinks",
+  "releaseNoteContributors",
+  "tagFormat",
+  "perPackageStart",
+  "releaseBranch",
+  "prerelease",
+  "prLabels",
+  "prReviewers",
+  "prTeamReviewers",
+  "prAssignees",
+  "prMilestone",
+  "prDraft",
+  "exclude",
+  "fixed",
+  "linked",
+  "changesetDir",
+  "changesetMode",
+];
+
+const VERSION_BUMP_KINDS = ["major", "minor", "patch"];
+
+/** The valid prerelease identifier of the channel e.g. `rc`, `beta` */
+export const RE_PRERELEASE_ID = /^[0-9A-Za-z-]+$/;
+
+/**
+ * Validates the `bumpWorkspaces` field of the config file and merges it with
+ * the default rules. Throws when an entry is invalid.
+ */
+export function parseBumpConfig(config: unknown, source: string): BumpConfig {
+  const invalid = (key: string, message: string) =>
+    new InvalidConfigError(source, `"${key}" ${message}`);
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((x) => typeof x === "string");
+  if (config === undefined) {
+    return { rules: DEFAULT_BUMP_RULES };
+  }
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw invalid("bumpWorkspaces", "must be an object.");
+  }
+  const {
+    tags,
+    scopeRequired,
+    ignoredTags,
+    skipSubjects,
+    releaseNotePath,
+    rootReleaseNote,
+    packageChangelogs,
+    releaseNoteTemplate,
+    prBodyTemplate,
+    releaseNoteSections,
+    releaseNoteLinks,
+    releaseNoteContributors,
+    tagFormat,
+    perPackageStart,
+    releaseBranch,
+    prerelease,
+    prLabels,
+    prReviewers,
+    prTeamReviewers,
+    prAssignees,
+    prMilestone,
+    prDraft,
+    exclude,
+    fixed,
+    linked,
+    changesetDir,
+    changesetMode,
+  } = config as Record<string, unknown>;
+  for (const key of Object.keys(config as object)) {
+    if (!BUMP_CONFIG_KEYS.includes(key)) {
+      throw invalid(`bumpWorkspaces.${key}`, "is not a known option.");
+    }
+  }
+  const rules = { ...DEFAULT_BUMP_RULES };
+  if (tags !== undefined) {
+    if (typeof tags !== "object" || tags === null || Array.isArray(tags)) {
+      throw invalid("bumpWorkspaces.tags", "must be an object.");
+    }
+    for (const [tag, version] of Object.entries(tags as object)) {
+      if (!VERSION_BUMP_KINDS.includes(version)) {
+        throw invalid(
+          `bumpWorkspaces.tags.${tag}`,
+          `must be one of "major", "minor" or "patch", but got ${
+            JSON.stringify(version)
+          }.`,
+        );
+      }
+    }
+    rules.tags = { ...rules.tags, ...tags as Record<string, VersionBumpKind> };
+  }
+  if (scopeRequired !== undefined) {
+    if (!isStringArray(scopeRequired)) {
+      throw invalid(
+        "bumpWorkspaces.scopeRequired",
+        "must be an array of strings.",
+      );
+    }
+    rules.scopeRequired = scopeRequired;
+  }
+  if (ignoredTags !== undefined) {
+    if (!isStringArray(ignoredTags)) {
+      throw invalid(
+        "bumpWorkspaces.ignoredTags",
+        "must be an array of strings.",
+      );
+    }
+    rules.ignoredTags = ignoredTags;
+  }
+  if (skipSubjects !== undefined) {
+    if (!isStringArray(skipSubjects)) {
+      throw invalid(
+        "bumpWorkspaces.skipSubjects",
+        "must be an array of strings.",
+      );
+    }
+    rules.skipSubjects = [
+      ...rules.skipSubjects,
+      ...skipSubjects.map((pattern, i) => {
+        try {
+          return new RegExp(pattern);
+        } catch {
+          throw invalid(
+            `bumpWorkspaces.skipSubjects.${i}`,
+            `is not a valid regular expression: ${pattern}`,
+          );
+        }
+      }),
+    ];
+  }
+  for (
+    const [key, value] of Object.entries({
+      releaseNotePath,
+      releaseNoteTemplate,
+      prBodyTemplate,
+      tagFormat,
+      releaseBranch,
+      prerelease,
+      prMilestone,
+      changesetDir,
+    })
+  ) {
+    if (value !== undefined && typeof value !== "string") {
+      throw invalid(`bumpWorkspaces.${key}`, "must be a string.");
+    }
+  }
+  if (
+    changesetMode !== undefined && changesetMode !== "merge" &&
+    changesetMode !== "replace"
+  ) {
+    throw invalid(
+      "bumpWorkspaces.changesetMode",
+      'must be "merge" or "replace".',
+    );
+  }
+  if (
+    prerelease !== undefined && !RE_PRERELEASE_ID.test(prerelease as string)
+  ) {
+    throw invalid(
+      "bumpWorkspaces.prerelease",
+      "must consist of alphanumerics and hyphens.",
+    );
+  }
+  for (
+    const [key, value] of Object.entries({
+      rootReleaseNote,
+      packageChangelogs,
+      releaseNoteLinks,
+      releaseNoteContributors,
+      perPackageStart,
+      prDraft,
+    })
+  ) {
+    if (value !== undefined && typeof value !== "boolean") {
+      throw invalid(`bumpWorkspaces.${key}`, "must be a boolean.");
+    }
+  }
+  for (
+    const [key, value] of Object.entries({
+      prLabels,
+      prReviewers,
+      prTeamReviewers,
+      prAssignees,
+      exclude,
+    })
+  ) {
+    if (value !== undefined && !isStringArray(value)) {
+      throw invalid(`bumpWorkspaces.${key}`, "must be an array of strings.");
+    }
+  }
+  for (const [key, value] of Object.entries({ fixed, linked })) {
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every(isStringArray))
+    ) {
+      throw invalid(
+        `bumpWorkspaces.${key}`,
+        "must be an array of arrays of strings.",
+      );
+    }
+  }
+  let sections: ReleaseNoteSection[] | undefined;
+  if (releaseNoteSections === true) {
+    sections = DEFAULT_RELEASE_NOTE_SECTIONS;
+  } else if (Array.isArray(releaseNoteSections)) {
+    sections = releaseNoteSections.map((section, i) => {
+      const { title, tags } = section ?? {};
+      if (typeof title !== "string" || !isStringArray(tags)) {
+        throw invalid(
+          `bumpWorkspaces.releaseNoteSections.${i}`,
+          'must be an object with "title" string and "tags" array of strings.',
+        );
+      }
+      return { title, tags };
+    });
+  } else if (
+    releaseNoteSections !== undefined && releaseNoteSections !== false
+  ) {
+    throw invalid(
+      "bumpWorkspaces.releaseNoteSections",
+      "must be a boolean or an array of sections.",
+    );
+  }
+  return {
+    rules,
+    releaseNotePath: releaseNotePath as string | undefined,
+    rootReleaseNote: rootReleaseNote as boolean | undefined,
+    packageChangelogs: packageChangelogs as boolean | undefined,
+    releaseNoteTemplate: releaseNoteTemplate as string | undefined,
+    prBodyTemplate: prBodyTemplate as string | undefined,
+    releaseNoteSections: sections,
+    releaseNoteLinks: releaseNoteLinks as boolean | undefined,
+    releaseNoteContributors: releaseNoteContributors as boolean | undefined,
+    tagFormat: tagFormat as string | undefined,
+    perPackageStart: perPackageStart as boolean | undefined,
+    releaseBranch: releaseBranch as string | undefined,
+    prerelease: prerelease as string | undefined,
+    prLabels: prLabels as string[] | undefined,
+    prReviewers: prReviewers as string[] | undefined,
+    prTeamReviewers: prTeamReviewers as string[] | undefined,
+    prAssignees: prAssignees as string[] | undefined,
+    prMilestone: prMilestone as string | undefined,
+    prDraft: prDraft as boolean | undefined,
+    exclude: exclude as string[] | undefined,
+    fixed: fixed as string[][] | undefined,
+    linked: linked as string[][] | undefined,
+    changesetDir: changesetDir as string | undefined,
+    changesetMode: changesetMode as "merge" | "replace" | undefined,
+  };
+}
+
+/** Reads the config of the tool from the root deno.json(c) or package.json. */
+export async function getBumpConfig(
+  root: string,
+  reader: FileReader = fsReader,
+): Promise<BumpConfig> {
+  const config =
+    await tryReadConfig(root, ["deno.json", "deno.jsonc"], reader) ??
+      await tryGetPackageJson(root, reader);
+  if (!config) {
+    return { rules: DEFAULT_BUMP_RULES };
+  }
+  const bumpConfig = parseBumpConfig(config[1].bumpWorkspaces, config[0]);
+  // Reads the template files
+  for (const key of ["releaseNoteTemplate", "prBodyTemplate"] as const) {
+    const path = bumpConfig[key];
+    if (path === undefined) {
+      continue;
+    }
+    const template = await reader.readTextFile(join(root, path));
+    if (template === undefined) {
+      throw new InvalidConfigError(
+        config[0],
+        `"bumpWorkspaces.${key}" file is not found: ${path}`,
+      );
+    }
+    bumpConfig[key] = template;
+  }
+  return bumpConfig;
+}
+
 export function defaultParseCommitMessage(
   commit: Commit,
   workspaceModules: WorkspaceModule[],
+  rules: BumpRules = DEFAULT_BUMP_RULES,
 ): VersionBump[] | Diagnostic {
   const match = RE_DEFAULT_PATTERN.exec(commit.subject);
   if (match === null) {
@@ -130,13 +634,22 @@ export function defaultParseCommitMessage(
     };
   }
   const [, tag, module, optionalPostModule, _message] = match;
+  if (rules.ignoredTags.includes(tag)) {
+    return {
+      type: "skipped_commit",
+      commit,
+      reason: `The commit tag is ignored: ${tag}.`,
+    };
+  }
   const modules = module === "*"
     ? workspaceModules.map((x) => x.name)
     : module
     ? module.split(/\s*,\s*/)
     : [];
+  // The breaking changes need the scopes to know which modules are affected
+  const breaking = parseBreakingChangeFooter(commit.body) !== undefined;
   if (modules.length === 0) {
-    if (DEFAULT_RANGE_REQUIRED.includes(tag)) {
+    if (rules.scopeRequired.includes(tag) || breaking) {
       return {
         type: "missing_range",
         commit,
@@ -149,9 +662,11 @@ export function defaultParseCommitMessage(
       reason: "The commit message does not specify a module.",
     };
   }
-  const version = optionalPostModule in POST_MODULE_TO_VERSION
+  let version = optionalPostModule in POST_MODULE_TO_VERSION
     ? POST_MODULE_TO_VERSION[optionalPostModule]
-    : TAG_TO_VERSION[tag];
+    : Object.hasOwn(rules.tags, tag)
+    ? rules.tags[tag]
+    : undefined;
   if (version === undefined) {
     return {
       type: "unknown_commit",
@@ -159,6 +674,9 @@ export function defaultParseCommitMessage(
       reason: `Unknown commit tag: ${tag}.`,
     };
   }
+  if (breaking) {
+    version = "major";
+  }
   return modules.map((module) => {
     const matchUnstable = REGEXP_UNSTABLE_SCOPE.exec(module);
     if (matchUnstable) {
@@ -177,7 +695,9 @@ export function defaultParseCommitMessage(
 
 export function summarizeVersionBumpsByModule(
   versionBumps: VersionBump[],
+  rules: BumpRules = DEFAULT_BUMP_RULES,
 ): VersionBumpSummary[] {
+  const tagPriority = Object.keys(rules.tags);
   const result = {} as Record<string, VersionBumpSummary>;
   for (const versionBump of versionBumps) {
     const { module, version } = versionBump;
@@ -191,8 +711,8 @@ export function summarizeVersionBumpsByModule(
   }
   for (const summary of Object.values(result)) {
     summary.commits.sort((a, b) => {
-      const priorityA = TAG_PRIORITY.indexOf(a.tag);
-      const priorityB = TAG_PRIORITY.indexOf(b.tag);
+      const priorityA = tagPriority.indexOf(a.tag);
+      const priorityB = tagPriority.indexOf(b.tag);
       if (priorityA === priorityB) {
         return 0;
       }
@@ -216,69 +736,333 @@ export function maxVersion(
   return "patch";
 }
 
-export async function tryGetDenoConfig(
-  path: string,
-  // deno-lint-ignore no-explicit-any
-): Promise<[path: string, config: any]> {
-  let denoJson: string | undefined;
-  let denoJsonPath: string | undefined;
-  try {
-    denoJsonPath = join(path, "deno.json");
-    denoJson = await Deno.readTextFile(denoJsonPath);
-  } catch (e) {
-    if (!(e instanceof Deno.errors.NotFound)) {
+const CONFIG_NAMES = ["deno.json", "deno.jsonc", "package.json"];
+
+/**
+ * Reads the files of the workspace. {@linkcode fsReader} reads the working
+ * tree, and {@linkcode createGitReader} reads the files at a git revision
+ * without checking it out.
+ */
+export type FileReader = {
+  /** Reads the text of the file. Returns undefined if the file doesn't exist. */
+  readTextFile(path: string): Promise<string | undefined>;
+  /** Returns the directories matching the glob pattern relative to the root, sorted by the paths. */
+  expandGlob(root: string, pattern: string): Promise<string[]>;
+  /** Returns the paths of the files directly in the directory, sorted by the paths. Returns an empty array if the directory doesn't exist. */
+  listFiles(dir: string): Promise<string[]>;
+};
+
+/** The reader of the working tree. */
+export const fsReader: FileReader = {
+  async readTextFile(path) {
+    try {
+      return await Deno.readTextFile(path);
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
       throw e;
     }
-  }
-
-  if (!denoJson) {
+  },
+  async expandGlob(root, pattern) {
+    const absRoot = resolve(root);
+    const dirs = [];
+    for await (const entry of expandFsGlob(pattern, { root: absRoot })) {
+      if (entry.isDirectory) {
+        dirs.push(join(root, relative(absRoot, entry.path)));
+      }
+    }
+    return dirs.sort();
+  },
+  async listFiles(dir) {
+    const files = [];
     try {
-      denoJsonPath = join(path, "deno.jsonc");
-      denoJson = await Deno.readTextFile(denoJsonPath);
+      for await (const entry of Deno.readDir(dir)) {
+        if (entry.isFile) {
+          files.push(join(dir, entry.name));
+        }
+      }
     } catch (e) {
       if (e instanceof Deno.errors.NotFound) {
-        console.log(`No deno.json or deno.jsonc found in ${resolve(path)}`);
-        Deno.exit(1);
+        return [];
       }
       throw e;
     }
+    return files.sort();
+  },
+};
+
+const RE_GIT_PATH_NOT_FOUND = /does not exist in|exists on disk, but not in/;
+
+/**
+ * Creates the reader of the files at the given git revision. The paths are
+ * relative to the current directory, or absolute. The files outside of the
+ * repository are read from the file system, as they are not affected by the
+ * revision.
+ */
+export function createGitReader(rev: string): FileReader {
+  let toplevel: Promise<string> | undefined;
+  // Returns the path relative to the top of the repository, which git accepts
+  // regardless of the current directory. Undefined if it's outside of the repository.
+  const getRepoPath = async (path: string) => {
+    toplevel ??= $`git rev-parse --show-toplevel`.text();
+    const repoPath = relative(await toplevel, resolve(path));
+    return repoPath.startsWith("..") || isAbsolute(repoPath)
+      ? undefined
+      : repoPath.replaceAll("\\", "/");
+  };
+  // Runs git at the top of the repository, so the paths in the output are
+  // also relative to it
+  const git = async (args: string[]) =>
+    await $`git -C ${await toplevel} ${args}`.lines();
+  return {
+    async readTextFile(path) {
+      const repoPath = await getRepoPath(path);
+      if (repoPath === undefined) {
+        return await fsReader.readTextFile(path);
+      }
+      const result = await $`git show ${`${rev}:${repoPath}`}`
+        .noThrow().stdout("piped").stderr("piped");
+      if (result.code === 0) {
+        return result.stdout;
+      }
+      if (RE_GIT_PATH_NOT_FOUND.test(result.stderr)) {
+        return undefined;
+      }
+      throw new Error(`Failed to read ${path} at ${rev}: ${result.stderr}`);
+    },
+    async expandGlob(root, pattern) {
+      const repoRoot = await getRepoPath(root);
+      if (repoRoot === undefined) {
+        return await fsReader.expandGlob(root, pattern);
+      }
+      const re = globToRegExp(join(pattern));
+      const dirs = await git(
+        ["ls-tree", "-r", "-d", "--name-only", rev, "--", repoRoot || "."],
+      );
+      // The output also includes the ancestors of the root
+      return dirs
+        .filter((dir) => dir.startsWith(repoRoot ? `${repoRoot}/` : ""))
+        .filter((dir) => dir !== "")
+        .map((dir) => relative(repoRoot, dir))
+        .filter((dir) => re.test(dir))
+        .map((dir) => join(root, dir))
+        .sort();
+    },
+    async listFiles(dir) {
+      const repoDir = await getRepoPath(dir);
+      if (repoDir === undefined) {
+        return await fsReader.listFiles(dir);
+      }
+      // Each line is in the form of `<mode> <type> <object>\t<path>`
+      const entries = await git(
+        ["ls-tree", rev, "--", repoDir ? `${repoDir}/` : "."],
+      );
+      return entries
+        .filter((entry) => entry !== "")
+        .map((entry) => entry.split("\t"))
+        .filter(([info]) => info.split(" ")[1] === "blob")
+        .map(([_, path]) => join(dir, basename(path)))
+        .sort();
+    },
+  };
+}
+
+async function tryReadConfig(
+  dir: string,
+  names: string[],
+  reader: FileReader = fsReader,
+  // deno-lint-ignore no-explicit-any
+): Promise<[path: string, config: any] | undefined> {
+  for (const name of names) {
+    const path = join(dir, name);
+    const text = await reader.readTextFile(path);
+    if (text === undefined) {
+      continue;
+    }
+    try {
+      return [path, parseJsonc(text)];
+    } catch (e) {
+      throw new InvalidConfigError(path, (e as Error).message, { cause: e });
+    }
   }
+  return undefined;
+}
 
-  try {
-    return [denoJsonPath!, parseJsonc(denoJson)];
-  } catch (e) {
-    console.log("Invalid deno.json or deno.jsonc file.");
-    console.log(e);
-    Deno.exit(1);
+export async function tryGetDenoConfig(
+  path: string,
+  reader: FileReader = fsReader,
+  // deno-lint-ignore no-explicit-any
+): Promise<[path: string, config: any]> {
+  const result = await tryReadConfig(path, ["deno.json", "deno.jsonc"], reader);
+  if (!result) {
+    throw new ConfigNotFoundError(resolve(path), ["deno.json", "deno.jsonc"]);
   }
+  return result;
+}
+
+/** Reads package.json in the given directory. Returns undefined if it doesn't exist. */
+export async function tryGetPackageJson(
+  path: string,
+  reader: FileReader = fsReader,
+  // deno-lint-ignore no-explicit-any
+): Promise<[path: string, config: any] | undefined> {
+  return await tryReadConfig(path, ["package.json"], reader);
 }
 
+/**
+ * Reads the workspace member in the given directory from deno.json(c) and
+ * package.json. If the both exist, the fields in deno.json(c) take precedence.
+ */
+async function getWorkspaceModule(
+  dir: string,
+  reader: FileReader,
+): Promise<WorkspaceModule | undefined> {
+  const denoConfig = await tryReadConfig(
+    dir,
+    ["deno.json", "deno.jsonc"],
+    reader,
+  );
+  const packageJson = await tryGetPackageJson(dir, reader);
+  if (!denoConfig && !packageJson) {
+    throw new ConfigNotFoundError(resolve(dir), CONFIG_NAMES);
+  }
+  const module = { ...packageJson?.[1], ...denoConfig?.[1] };
+  if (!module.name) {
+    return undefined;
+  }
+  // The path of the config which declares the version
+  const path = denoConfig && (denoConfig[1].version || !packageJson)
+    ? denoConfig[0]
+    : packageJson![0];
+  return {
+    ...module,
+    [pathProp]: path,
+    ...packageJson && { [packageJsonPathProp]: packageJson[0] },
+    ...denoConfig && { [denoConfigPathProp]: denoConfig[0] },
+  };
+}
+
+function getPackageJsonWorkspaces(packageJson: unknown): unknown {
+  const workspaces = (packageJson as
+    | { workspaces?: unknown[] | { packages?: unknown } }
+    | undefined)?.workspaces;
+  // Yarn also accepts the form of { "packages": [...] }
+  return Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+}
+
+/**
+ * Reads the workspace modules from the config files in the given root. The
+ * files are read by the given reader, which is the working tree by default.
+ * Use {@linkcode createGitReader} to read them at a git revision.
+ */
 export async function getWorkspaceModules(
   root: string,
+  reader: FileReader = fsReader,
 ): Promise<[string, WorkspaceModule[]]> {
-  const [path, denoConfig] = await tryGetDenoConfig(root);
-  const workspaces = denoConfig.workspaces || denoConfig.workspace;
+  const denoConfig = await tryReadConfig(
+    root,
+    ["deno.json", "deno.jsonc"],
+    reader,
+  );
+  const packageJson = await tryGetPackageJson(root, reader);
+  if (!denoConfig && !packageJson) {
+    throw new ConfigNotFoundError(resolve(root), CONFIG_NAMES);
+  }
+  const denoWorkspaces = denoConfig?.[1].workspaces ||
+    denoConfig?.[1].workspace;
+  const npmWorkspaces = getPackageJsonWorkspaces(packageJson?.[1]);
 
-  if (!Array.isArray(workspaces)) {
-    console.log(red("Error") + " deno.json doesn't have workspace field.");
-    Deno.exit(1);
+  const rootConfigPath = (denoConfig ?? packageJson)![0];
+  if (!Array.isArray(denoWorkspaces) && !Array.isArray(npmWorkspaces)) {
+    throw new InvalidConfigError(
+      rootConfigPath,
+      "The workspace field is not found.",
+    );
+  }
+  const workspaces = [
+    ...Array.isArray(denoWorkspaces) ? denoWorkspaces : [],
+    ...Array.isArray(npmWorkspaces) ? npmWorkspaces : [],
+  ];
+
+  if (workspaces.some((workspace) => typeof workspace !== "string")) {
+    throw new InvalidConfigError(
+      rootConfigPath,
+      "The workspace field should be an array of strings.",
+    );
   }
 
   const result = [];
-  for (const workspace of workspaces) {
-    if (typeof workspace !== "string") {
-      console.log("deno.json workspace field should be an array of strings.");
-      Deno.exit(1);
+  for (
+    const member of await expandWorkspaceMembers(root, workspaces, reader)
+  ) {
+    const module = await getWorkspaceModule(member, reader);
+    if (module) {
+      result.push(module);
     }
-    const [path, workspaceConfig] = await tryGetDenoConfig(
-      join(root, workspace),
-    );
-    if (!workspaceConfig.name) {
+  }
+  return [rootConfigPath, result];
+}
+
+async function hasWorkspaceConfig(dir: string, reader: FileReader) {
+  for (const name of CONFIG_NAMES) {
+    if (await reader.readTextFile(join(dir, name)) !== undefined) {
+      return true;
+    }
+  }
+  return false;
+}
+
+async function expandWorkspacePattern(
+  root: string,
+  pattern: string,
+  reader: FileReader,
+) {
+  if (!isGlob(pattern)) {
+    return [join(root, pattern)];
+  }
+  return await reader.expandGlob(root, pattern);
+}
+
+/**
+ * Expands the entries of the workspace field to the member directories.
+ *
+ * Glob patterns (e.g. `./packages/*`) are expanded to the matching directories
+ * which have deno.json(c) or package.json, and the entries starting with `!` exclude the
+ * matching directories.
+ */
+export async function expandWorkspaceMembers(
+  root: string,
+  workspaces: string[],
+  reader: FileReader = fsReader,
+): Promise<string[]> {
+  const members: string[] = [];
+  const excluded = new Set<string>();
+  for (const workspace of workspaces) {
+    if (workspace.startsWith("!")) {
+      for (
+        const dir of await expandWorkspacePattern(
+          root,
+          workspace.slice(1),
+          reader,
+        )
+      ) {
+        excluded.add(dir);
+      }
       continue;
     }
-    result.push({ ...workspaceConfig, [pathProp]: path });
+    const dirs = await expandWorkspacePattern(root, workspace, reader);
+    for (const dir of dirs) {
+      if (members.includes(dir)) {
+        continue;
+      }
+      // Directories matched by glob patterns are members only when they have config files
+      if (!isGlob(workspace) || await hasWorkspaceConfig(dir, reader)) {
+        members.push(dir);
+      }
+    }
   }
-  return [path, result];
+  return members.filter((dir) => !excluded.has(dir));
 }
 
 export function getModule(module: string, modules: WorkspaceModule[]) {
@@ -287,6 +1071,173 @@ export function getModule(module: string, modules: WorkspaceModule[]) {
   );
 }
 
+/**
+ * Returns true if the module is excluded from the version bumps, either by
+ * `bumpWorkspaces.exclude` in its config file or by the given name patterns.
+ * `*` in the patterns matches any characters.
+ */
+export function isExcludedModule(
+  module: WorkspaceModule,
+  patterns: string[] = [],
+): boolean {
+  if (module.bumpWorkspaces?.exclude === true) {
+    return true;
+  }
+  return patterns.some((pattern) => matchModuleName(module.name, pattern));
+}
+
+function matchModuleName(name: string, pattern: string) {
+  const escaped = pattern.split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`).test(name);
+}
+
+/** The group of the modules which are versioned together */
+export type VersionGroup = {
+  /**
+   * `fixed` bumps all the members to the same version, and `linked` bumps the
+   * updated members at least by the largest bump among them.
+   */
+  type: "fixed" | "linked";
+  /** The names of the member modules */
+  members: string[];
+};
+
+/**
+ * Resolves the name patterns of the fixed and linked groups to the modules.
+ * Throws when a module belongs to more than one group.
+ */
+export function resolveVersionGroups(
+  modules: WorkspaceModule[],
+  { fixed = [], linked = [] }: { fixed?: string[][]; linked?: string[][] },
+  source: string,
+): VersionGroup[] {
+  const groups: VersionGroup[] = [
+    ...fixed.map((patterns) => ({ type: "fixed" as const, patterns })),
+    ...linked.map((patterns) => ({ type: "linked" as const, patterns })),
+  ].map(({ type, patterns }) => ({
+    type,
+    members: modules
+      .filter((m) => patterns.some((p) => matchModuleName(m.name, p)))
+      .map((m) => m.name),
+  }));
+  const seen = new Set<string>();
+  for (const name of groups.flatMap((g) => g.members)) {
+    if (seen.has(name)) {
+      throw new InvalidConfigError(
+        source,
+        `${name} belongs to more than one version group.`,
+      );
+    }
+    seen.add(name);
+  }
+  return groups.filter((g) => g.members.length > 0);
+}
+
+/**
+ * Unifies the version bumps of the members of the groups. The members of a
+ * fixed group are all bumped by the largest bump among them, including the
+ * members without commits, and the updated members of a linked group are
+ * bumped by the largest bump among them.
+ */
+export function applyVersionGroups(
+  summaries: VersionBumpSummary[],
+  modules: WorkspaceModule[],
+  groups: VersionGroup[],
+): VersionBumpSummary[] {
+  const result = [...summaries];
+  const nameOf = (s: VersionBumpSummary) => getModule(s.module, modules)?.name;
+  for (const { type, members } of groups) {
+    const updated = result.filter((s) => members.includes(nameOf(s)!));
+    if (updated.length === 0) {
+      continue;
+    }
+    const version = updated.map((s) => s.version).reduce(maxVersion);
+    for (const summary of updated) {
+      summary.version = version;
+    }
+    if (type === "fixed") {
+      for (const name of members) {
+        if (!updated.some((s) => nameOf(s) === name)) {
+          result.push({ module: name, version, commits: [] });
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the overrides which keep the members of the fixed groups at the same
+ * version, i.e. the highest one among the new versions computed separately.
+ * This is necessary when the current versions of the members differ.
+ */
+export async function getFixedGroupOverrides(
+  summaries: VersionBumpSummary[],
+  modules: WorkspaceModule[],
+  oldModules: WorkspaceModule[],
+  groups: VersionGroup[],
+  getOptions: (module: WorkspaceModule) => ApplyVersionBumpOptions,
+): Promise<Map<string, VersionOverride>> {
+  const overrides = new Map<string, VersionOverride>();
+  for (const { type, members } of groups) {
+    if (type !== "fixed") {
+      continue;
+    }
+    const versions = new Map<string, SemVer>();
+    for (const summary of summaries) {
+      const module = getModule(summary.module, modules)!;
+      if (!members.includes(module.name)) {
+        continue;
+      }
+      const [_, { to }] = await applyVersionBump(
+        { ...summary },
+        { ...module },
+        getModule(summary.module, oldModules),
+        "{}",
+        true,
+        silentLogger,
+        getOptions(module),
+      );
+      versions.set(module.name, parseSemVer(to));
+    }
+    if (versions.size === 0) {
+      // No member of the group is bumped
+      continue;
+    }
+    const target = [...versions.values()]
+      .reduce((a, b) => greaterThan(a, b) ? a : b);
+    for (const [name, version] of versions) {
+      if (!equals(version, target)) {
+        overrides.set(name, {
+          version: formatSemver(target),
+          reason: `Fixed version group (${members.join(", ")})`,
+        });
+      }
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Returns the diagnostic if the version bump targets one of the excluded
+ * modules, or undefined otherwise.
+ */
+export function checkExcludedModule(
+  versionBump: Pick<VersionBump, "module" | "commit" | "tag">,
+  excludedModules: WorkspaceModule[],
+): Diagnostic | undefined {
+  const module = getModule(versionBump.module, excludedModules);
+  if (!module) {
+    return undefined;
+  }
+  return {
+    type: "excluded_module_commit",
+    commit: versionBump.commit,
+    reason: `The module is excluded from the version bumps: ${module.name}.`,
+  };
+}
+
 export function checkModuleName(
   versionBump: Pick<VersionBump, "module" | "commit" | "tag">,
   modules: WorkspaceModule[],
@@ -341,6 +1292,81 @@ export function calcVersionDiff(
   );
 }
 
+/** The options of the prerelease channel for {@linkcode applyVersionBump} */
+export type PrereleaseOptions = {
+  /**
+   * The prerelease identifier of the channel e.g. `rc`. If given, the bump
+   * enters the channel (e.g. a minor bump of `1.2.3` makes `1.3.0-rc.0`), or
+   * increments the number of the current prerelease (`1.3.0-rc.0` to
+   * `1.3.0-rc.1`). A bump larger than the current prerelease line starts the
+   * new line (a major bump of `1.3.0-rc.1` makes `2.0.0-rc.0`).
+   */
+  prerelease?: string;
+  /** Promotes the prerelease version to the stable version e.g. `1.3.0-rc.2` to `1.3.0` */
+  graduate?: boolean;
+};
+
+/** The version which is set explicitly instead of the one computed from the commits */
+export type VersionOverride = {
+  /** The new version of the module */
+  version: string;
+  /** The reason of the override e.g. `Release-As` footer. This is shown in the release note and the pull request body. */
+  reason: string;
+};
+
+/** The options for {@linkcode applyVersionBump} */
+export type ApplyVersionBumpOptions = PrereleaseOptions & {
+  /** The version to set instead of the computed one. This must be greater than the current version. */
+  override?: VersionOverride;
+};
+
+/** Gets the prerelease channel of the version e.g. `rc` of `1.3.0-rc.0`. */
+export function getPrereleaseChannel(version: string): string | undefined {
+  const [channel] = parseSemVer(version).prerelease ?? [];
+  return channel === undefined ? undefined : String(channel);
+}
+
+/**
+ * Formats the version diff of the update with the prerelease channel, e.g.
+ * `prerelease, rc` for `1.2.3` to `1.3.0-rc.0`, and `minor, graduated from rc`
+ * for `1.3.0-rc.2` to `1.3.0`.
+ */
+export function formatVersionDiff(update: VersionUpdateResult): string {
+  const channel = getPrereleaseChannel(update.to);
+  if (channel !== undefined) {
+    return `${update.diff}, ${channel}`;
+  }
+  const oldChannel = getPrereleaseChannel(update.from);
+  if (oldChannel !== undefined) {
+    return `${update.diff}, graduated from ${oldChannel}`;
+  }
+  return update.diff;
+}
+
+/**
+ * Parses the explicit version of the module. Throws if it's not a valid
+ * version or not greater than the current version.
+ */
+export function parseVersionOverride(
+  module: WorkspaceModule,
+  override: VersionOverride,
+): SemVer {
+  const version = tryParseSemVer(override.version);
+  if (!version) {
+    throw new InvalidVersionOverrideError(
+      module.name,
+      `${override.version} is not a valid version.`,
+    );
+  }
+  if (!greaterThan(version, parseSemVer(module.version))) {
+    throw new InvalidVersionOverrideError(
+      module.name,
+      `${override.version} is not greater than the current version ${module.version}.`,
+    );
+  }
+  return version;
+}
+
 /** Apply the version bump to the file system. */
 export async function applyVersionBump(
   summary: VersionBumpSummary,
@@ -348,16 +1374,19 @@ export async function applyVersionBump(
   oldModule: WorkspaceModule | undefined,
   denoJson: string,
   dryRun = false,
+  logger: Logger = console,
+  { prerelease, graduate = false, override }: ApplyVersionBumpOptions = {},
 ): Promise<[denoJson: string, VersionUpdateResult]> {
-  if (!oldModule) {
+  if (!oldModule && !override) {
     // The module is newly added
-    console.info(`New module ${module.name} detected.`);
+    logger.info(`New module ${module.name} detected.`);
     const diff = module.version === "0.0.0"
       // If newly added module has 0.0.0 version, let's assume it's a patch bump
       ? "patch"
       : calcVersionDiff(module.version, "0.0.0");
     summary.version = diff;
     return [denoJson, {
+      name: module.name,
       from: "0.0.0",
       to: module.version,
       diff,
@@ -365,15 +1394,16 @@ export async function applyVersionBump(
       path: module[pathProp],
     }];
   }
-  if (oldModule.version !== module.version) {
+  if (oldModule && oldModule.version !== module.version && !override) {
     // The version is manually updated
-    console.info(
+    logger.info(
       `Manual version update detected for ${module.name}: ${oldModule.version} -> ${module.version}`,
     );
 
     const diff = calcVersionDiff(module.version, oldModule.version);
     summary.version = diff;
     return [denoJson, {
+      name: module.name,
       from: oldModule.version,
       to: module.version,
       diff,
@@ -384,10 +1414,7 @@ export async function applyVersionBump(
   const currentVersionStr = module.version;
   const currentVersion = parseSemVer(currentVersionStr);
   let diff = summary.version;
-  if (currentVersion.prerelease && currentVersion.prerelease.length > 0) {
-    // If the current version is a prerelease version, the version bump type is always prerelease
-    diff = "prerelease";
-  } else if (currentVersion.major === 0) {
+  if (currentVersion.major === 0) {
     // Change the version bump type for 0.x.y
     // This is aligned with the spec proposal discussed in https://github.com/semver/semver/pull/923
     if (diff === "major") {
@@ -398,55 +1425,742 @@ export async function applyVersionBump(
       diff = "patch";
     }
   }
+  let newVersion: SemVer;
+  if (override) {
+    const version = parseVersionOverride(module, override);
+    logger.info(
+      `Version override for ${module.name}: ${override.version} (${override.reason})`,
+    );
+    newVersion = version;
+    diff = calcVersionDiff(override.version, currentVersionStr);
+  } else if (hasPrerelease(currentVersion) && graduate) {
+    newVersion = { ...currentVersion, prerelease: [], build: [] };
+    diff = calcVersionDiff(formatSemver(newVersion), currentVersionStr);
+  } else if (hasPrerelease(currentVersion)) {
+    // If the current version is a prerelease version, the version bump type is always prerelease
+    const { minor, patch } = currentVersion;
+    const release = prerelease === undefined
+      ? "prerelease"
+      : diff === "major" && (minor !== 0 || patch !== 0)
+      ? "premajor"
+      : diff === "minor" && patch !== 0
+      ? "preminor"
+      : "prerelease";
+    newVersion = increment(currentVersion, release, prerelease);
+    diff = "prerelease";
+  } else if (prerelease !== undefined) {
+    newVersion = increment(
+      currentVersion,
+      diff === "prerelease" ? diff : `pre${diff}`,
+      prerelease,
+    );
+    diff = "prerelease";
+  } else {
+    newVersion = increment(currentVersion, diff);
+  }
   summary.version = diff;
-  const newVersion = increment(currentVersion, diff);
   const newVersionStr = formatSemver(newVersion);
   module.version = newVersionStr;
   const path = module[pathProp];
   if (!dryRun) {
-    await Deno.writeTextFile(path, JSON.stringify(module, null, 2) + "\n");
+    // Only rewrites the version value to keep the comments and formatting
+    const config = await Deno.readTextFile(path);
+    await Deno.writeTextFile(
+      path,
+      replaceJsoncStringValue(config, ["version"], newVersionStr),
+    );
+    // Keeps the version in package.json in sync, if the module has both deno.json and package.json
+    const packageJsonPath = module[packageJsonPathProp];
+    if (packageJsonPath && packageJsonPath !== path) {
+      const packageJson = await Deno.readTextFile(packageJsonPath);
+      if (findJsoncValueRange(packageJson, ["version"])) {
+        await Deno.writeTextFile(
+          packageJsonPath,
+          replaceJsoncStringValue(packageJson, ["version"], newVersionStr),
+        );
+      }
+    }
   }
   denoJson = denoJson.replace(
     new RegExp(`${module.name}@([^~]?)${currentVersionStr}`, "g"),
     `${module.name}@$1${newVersionStr}`,
   );
-  if (path.endsWith("deno.jsonc")) {
-    console.warn(
-      `Currently this tool doesn't keep the comments in deno.jsonc files. Comments in the path "${path}" might be removed by this update.`,
-    );
-  }
   return [denoJson, {
+    name: module.name,
     from: currentVersionStr,
     to: newVersionStr,
     diff,
     summary,
     path,
+    ...(override ? { override } : {}),
   }];
 }
 
+/** The commit in {@linkcode ReleaseNoteContext} */
+export type ReleaseNoteCommit = CommitWithTag & {
+  shortHash: string;
+  message: string;
+  /** The text of `BREAKING CHANGE:` footer */
+  breakingChange?: string;
+};
+
+/** The data available in the templates of the release note and the pull request body. */
+export type ReleaseNoteContext = {
+  /** The date of the release */
+  date: Date;
+  /** The title of the release in the form of YYYY.MM.DD */
+  title: string;
+  /**
+   * The version updates. `commits` is `summary.commits` with the short hashes
+   * and the subjects without `tag(scope): ` prefix, and `sections` is `commits`
+   * grouped by the release note sections.
+   */
+  updates: (VersionUpdateResult & {
+    commits: ReleaseNoteCommit[];
+    sections: { title: string; commits: ReleaseNoteCommit[] }[];
+  })[];
+  /** The diagnostics of the commits which are not handled */
+  diagnostics: Diagnostic[];
+  /** The contributors of the release. This is empty unless the contributors are collected. */
+  contributors: Contributor[];
+  /** The github repository e.g. denoland/deno_std */
+  githubRepo?: string;
+  /** The web url of the repository on the code hosting service e.g. https://github.com/denoland/deno_std */
+  repoUrl?: string;
+  /** The name of the release branch. This is only available in the pull request body. */
+  releaseBranch?: string;
+};
+
+/**
+ * The template of the release note or the pull request body. Either a template
+ * string (See `template.ts` for the syntax) or a function which renders the
+ * given context.
+ */
+export type ReleaseNoteTemplate =
+  | string
+  | ((context: ReleaseNoteContext) => string);
+
+export function createReleaseNoteContext(
+  updates: VersionUpdateResult[],
+  diagnostics: Diagnostic[],
+  date: Date,
+  {
+    githubRepo,
+    provider,
+    releaseBranch,
+    sections = DEFAULT_RELEASE_NOTE_SECTIONS,
+    contributors = [],
+  }: {
+    githubRepo?: string;
+    provider?: Provider;
+    releaseBranch?: string;
+    sections?: ReleaseNoteSection[];
+    contributors?: Contributor[];
+  } = {},
+): ReleaseNoteContext {
+  const toReleaseNoteCommit = (c: CommitWithTag): ReleaseNoteCommit => ({
+    ...c,
+    shortHash: c.hash.slice(0, 7),
+    message: stripCommitTag(c.subject),
+    breakingChange: parseBreakingChangeFooter(c.body),
+  });
+  return {
+    date,
+    title: createReleaseTitle(date),
+    updates: updates.map((u) => ({
+      ...u,
+      commits: u.summary.commits.map(toReleaseNoteCommit),
+      sections: groupCommitsBySection(u.summary.commits, sections).map((g) => ({
+        title: g.title,
+        commits: g.commits.map(toReleaseNoteCommit),
+      })),
+    })),
+    diagnostics,
+    contributors,
+    githubRepo,
+    repoUrl: provider?.repoUrl ??
+      (githubRepo ? `https://github.com/${githubRepo}` : undefined),
+    releaseBranch,
+  };
+}
+
+export function renderReleaseNoteTemplate(
+  template: ReleaseNoteTemplate,
+  context: ReleaseNoteContext,
+): string {
+  return typeof template === "function"
+    ? template(context)
+    : renderTemplate(template, context);
+}
+
+/**
+ * Finds the range of the value at the given key path in the JSON(C) text.
+ * Returns undefined if the key path doesn't exist.
+ */
+export function findJsoncValueRange(
+  text: string,
+  keyPath: string[],
+): [start: number, end: number] | undefined {
+  let i = 0;
+  let found: [number, number] | undefined;
+
+  function skipTrivia() {
+    while (i < text.length) {
+      if (/\s/.test(text[i])) {
+        i++;
+      } else if (text.startsWith("//", i)) {
+        const end = text.indexOf("\n", i);
+        i = end < 0 ? text.length : end + 1;
+      } else if (text.startsWith("/*", i)) {
+        const end = text.indexOf("*/", i + 2);
+        if (end < 0) {
+          throw new SyntaxError(`Unterminated comment at ${i}`);
+        }
+        i = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function readString(): string {
+    const start = i;
+    i++; // skip the opening quote
+    while (i < text.length && text[i] !== '"') {
+      i += text[i] === "\\" ? 2 : 1;
+    }
+    if (i >= text.length) {
+      throw new SyntaxError(`Unterminated string at ${start}`);
+    }
+    i++; // skip the closing quote
+    return JSON.parse(text.slice(start, i));
+  }
+
+  function readValue(path: string[]) {
+    skipTrivia();
+    const start = i;
+    const c = text[i];
+    if (c === "{") {
+      i++;
+      skipTrivia();
+      while (text[i] !== "}") {
+        if (text[i] !== '"') {
+          throw new SyntaxError(`Unexpected token ${text[i]} at ${i}`);
+        }
+        const key = readString();
+        skipTrivia();
+        if (text[i] !== ":") {
+          throw new SyntaxError(`Unexpected token ${text[i]} at ${i}`);
+        }
+        i++;
+        readValue([...path, key]);
+        skipTrivia();
+        if (text[i] === ",") {
+          i++;
+          skipTrivia();
+        }
+      }
+      i++;
+    } else if (c === "[") {
+      i++;
+      skipTrivia();
+      let index = 0;
+      while (text[i] !== "]") {
+        readValue([...path, String(index++)]);
+        skipTrivia();
+        if (text[i] === ",") {
+          i++;
+          skipTrivia();
+        }
+      }
+      i++;
+    } else if (c === '"') {
+      readString();
+    } else {
+      const match = /^[^\s,\]}\/]+/.exec(text.slice(i));
+      if (!match) {
+        throw new SyntaxError(`Unexpected token ${c} at ${i}`);
+      }
+      i += match[0].length;
+    }
+    if (
+      !found && path.length === keyPath.length &&
+      path.every((key, j) => key === keyPath[j])
+    ) {
+      found = [start, i];
+    }
+  }
+
+  readValue([]);
+  return found;
+}
+
+/**
+ * Replaces the value at the given key path in the JSON(C) text with the given
+ * string. Comments, whitespaces, trailing commas and key order are preserved.
+ */
+export function replaceJsoncStringValue(
+  text: string,
+  keyPath: string[],
+  value: string,
+): string {
+  const range = findJsoncValueRange(text, keyPath);
+  if (!range) {
+    throw new Error(`The key "${keyPath.join(".")}" is not found.`);
+  }
+  const [start, end] = range;
+  return text.slice(0, start) + JSON.stringify(value) + text.slice(end);
+}
+
+const RE_REGISTRY_SPECIFIER =
+  /^(?:jsr|npm):\/?((?:@[^/@]+\/)?[^/@]+)@([^/]+)(\/.*)?$/;
+
+/**
+ * Collects the dependencies between the workspace modules from `imports` in
+ * deno.json(c) and `dependencies` and `devDependencies` in package.json of
+ * each module. Bare specifiers in `imports` are resolved via the given root
+ * import map.
+ */
+export function getWorkspaceDependencies(
+  modules: WorkspaceModule[],
+  rootImports: Record<string, string> = {},
+): WorkspaceDependency[] {
+  const names = new Set(modules.map((m) => m.name));
+  const dependencies: WorkspaceDependency[] = [];
+  for (const module of modules) {
+    // The import map is only read from deno.json(c), which is not always the
+    // config declaring the version
+    const denoConfigPath = module[denoConfigPathProp];
+    if (denoConfigPath) {
+      for (const [key, value] of Object.entries(module.imports ?? {})) {
+        const viaRoot = !/^(jsr|npm):/.test(value) && value in rootImports;
+        const match = RE_REGISTRY_SPECIFIER.exec(
+          viaRoot ? rootImports[value] : value,
+        );
+        if (!match) {
+          continue;
+        }
+        const [, dependency, range] = match;
+        if (dependency === module.name || !names.has(dependency)) {
+          continue;
+        }
+        dependencies.push({
+          dependent: module.name,
+          dependency,
+          location: viaRoot
+            ? undefined
+            : { path: denoConfigPath, keyPath: ["imports", key] },
+          range,
+        });
+      }
+    }
+    const packageJsonPath = module[packageJsonPathProp];
+    if (!packageJsonPath) {
+      continue;
+    }
+    for (const field of ["dependencies", "devDependencies"] as const) {
+      for (const [name, value] of Object.entries(module[field] ?? {})) {
+        if (name === module.name || !names.has(name)) {
+          continue;
+        }
+        dependencies.push({
+          dependent: module.name,
+          dependency: name,
+          location: { path: packageJsonPath, keyPath: [field, name] },
+          // The workspace protocol of npm-compatible package managers (e.g. `workspace:^1.0.0`)
+          range: value.replace(/^workspace:/, ""),
+        });
+      }
+    }
+  }
+  return dependencies;
+}
+
+/** Creates the version range which includes the given version, keeping the operator of the original range. */
+function updateRange(range: string, version: string) {
+  const match = /^([\^~]?)\d+\.\d+\.\d+/.exec(range);
+  return (match ? match[1] : "^") + version;
+}
+
+/**
+ * Bumps the modules which depend on the updated modules, if the new versions
+ * of the dependencies are out of the declared ranges. Such dependents get at
+ * least a patch bump and their `imports` are updated to the new versions.
+ *
+ * Returns the given updates and the updates of the dependents.
+ */
+export async function applyDependencyUpdates(
+  updates: VersionUpdateResult[],
+  modules: WorkspaceModule[],
+  oldModules: WorkspaceModule[],
+  rootImports: Record<string, string>,
+  denoJson: string,
+  dryRun = false,
+  logger: Logger = console,
+  { prerelease }: Pick<PrereleaseOptions, "prerelease"> = {},
+): Promise<[denoJson: string, VersionUpdateResult[]]> {
+  const dependencies = getWorkspaceDependencies(modules, rootImports);
+  const result = new Map<string, VersionUpdateResult>();
+  for (const update of updates) {
+    result.set(update.name, update);
+  }
+  const queue = [...result.entries()];
+  while (queue.length > 0) {
+    const [name, update] = queue.shift()!;
+    const newVersion = parseSemVer(update.to);
+    const outdated = dependencies.filter((d) => {
+      if (d.dependency !== name) {
+        return false;
+      }
+      const range = tryParseRange(d.range);
+      return range !== undefined && !satisfies(newVersion, range);
+    });
+    const dependents = [...new Set(outdated.map((d) => d.dependent))];
+    for (const dependent of dependents) {
+      const module = getModule(dependent, modules)!;
+      if (!dryRun) {
+        for (const { dependent: d, location, range } of outdated) {
+          if (d !== dependent || location === undefined) {
+            continue;
+          }
+          const config = await Deno.readTextFile(location.path);
+          const range_ = findJsoncValueRange(config, location.keyPath);
+          if (!range_) {
+            logger.warn(
+              `The dependency ${name} is not found at "${
+                location.keyPath.join(".")
+              }" in ${location.path}. Please update it manually.`,
+            );
+            continue;
+          }
+          const [start, end] = range_;
+          const specifier: string = JSON.parse(config.slice(start, end));
+          const i = specifier.lastIndexOf(range);
+          await Deno.writeTextFile(
+            location.path,
+            replaceJsoncStringValue(
+              config,
+              location.keyPath,
+              specifier.slice(0, i) + updateRange(range, update.to) +
+                specifier.slice(i + range.length),
+            ),
+          );
+        }
+      }
+      const commit = {
+        subject: `updated dependency ${name} to ${update.to}`,
+        body: "",
+        hash: "",
+        tag: "chore",
+      };
+      const dependentUpdate = result.get(dependent);
+      if (dependentUpdate) {
+        // The dependent is already bumped
+        dependentUpdate.summary.commits.push(commit);
+        continue;
+      }
+      const [denoJson_, versionUpdate] = await applyVersionBump(
+        { module: dependent, version: "patch", commits: [commit] },
+        module,
+        getModule(dependent, oldModules),
+        denoJson,
+        dryRun,
+        logger,
+        { prerelease },
+      );
+      denoJson = denoJson_;
+      result.set(dependent, versionUpdate);
+      queue.push([dependent, versionUpdate]);
+    }
+  }
+  return [denoJson, [...result.values()]];
+}
+
+/**
+ * Returns the names of the modules which are bumped only by the dependency
+ * cascade of the given summaries (See {@linkcode applyDependencyUpdates}).
+ * No file is updated.
+ */
+export async function getCascadedModules(
+  summaries: VersionBumpSummary[],
+  modules: WorkspaceModule[],
+  oldModules: WorkspaceModule[],
+  rootImports: Record<string, string>,
+  getOptions: (module: WorkspaceModule) => ApplyVersionBumpOptions,
+  { prerelease }: Pick<PrereleaseOptions, "prerelease"> = {},
+): Promise<string[]> {
+  // The versions of the modules are updated in memory, so they're copied
+  modules = modules.map((module) => ({ ...module }));
+  const updates: VersionUpdateResult[] = [];
+  for (const summary of summaries) {
+    const module = getModule(summary.module, modules)!;
+    const [_, update] = await applyVersionBump(
+      { ...summary, commits: [...summary.commits] },
+      module,
+      getModule(summary.module, oldModules),
+      "{}",
+      true,
+      silentLogger,
+      getOptions(module),
+    );
+    updates.push(update);
+  }
+  const [_, allUpdates] = await applyDependencyUpdates(
+    updates,
+    modules,
+    oldModules,
+    rootImports,
+    "{}",
+    true,
+    silentLogger,
+    { prerelease },
+  );
+  return allUpdates
+    .filter((u) => !updates.some((update) => update.name === u.name))
+    .map((u) => u.name);
+}
+
+/** A section of the grouped release note. */
+export type ReleaseNoteSection = {
+  /** The title of the section */
+  title: string;
+  /** The commit tags of the section. `*` matches the commits which don't belong to the other sections. */
+  tags: string[];
+};
+
+export const DEFAULT_RELEASE_NOTE_SECTIONS: ReleaseNoteSection[] = [
+  { title: "Breaking changes", tags: ["BREAKING"] },
+  { title: "Features", tags: ["feat"] },
+  { title: "Deprecations", tags: ["deprecation"] },
+  { title: "Bug fixes", tags: ["fix"] },
+  { title: "Performance", tags: ["perf"] },
+  { title: "Other", tags: ["*"] },
+];
+
+/**
+ * Groups the commits by the given sections. The commits marked with `!` or
+ * having `BREAKING CHANGE:` footer are grouped as `BREAKING`. Empty sections are omitted, and the commits which
+ * match no section are dropped.
+ */
+export function groupCommitsBySection(
+  commits: CommitWithTag[],
+  sections: ReleaseNoteSection[],
+): { title: string; commits: CommitWithTag[] }[] {
+  const groups = sections.map((s) => ({
+    title: s.title,
+    commits: [] as CommitWithTag[],
+  }));
+  for (const commit of commits) {
+    const tag = RE_DEFAULT_PATTERN.exec(commit.subject)?.[3] ||
+        parseBreakingChangeFooter(commit.body) !== undefined
+      ? "BREAKING"
+      : commit.tag;
+    let i = sections.findIndex((s) => s.tags.includes(tag));
+    if (i === -1) {
+      i = sections.findIndex((s) => s.tags.includes("*"));
+    }
+    groups[i]?.commits.push(commit);
+  }
+  return groups.filter((g) => g.commits.length > 0);
+}
+
+/** Removes the `tag(scope): ` prefix from the commit subject. */
+export function stripCommitTag(subject: string): string {
+  return RE_DEFAULT_PATTERN.exec(subject)?.[4] ?? subject;
+}
+
+/** The options of the release note format. */
+export type ReleaseNoteOptions = {
+  /** The sections for grouping the commits. The commits are listed without grouping if not given. */
+  sections?: ReleaseNoteSection[];
+  /** The github repository e.g. denoland/deno_std. If given, the pull request references and the commit hashes are linked. */
+  githubRepo?: string;
+  /** The code hosting service for linking the change request references and the commit hashes. This takes precedence over `githubRepo`. */
+  provider?: Provider;
+  /** The contributors of the release. If given, the list of the contributors is added. */
+  contributors?: Contributor[];
+};
+
+/** The contributor of the release. */
+export type Contributor = CommitAuthor & {
+  /** True if the contributor has no commits before the release. */
+  firstTime: boolean;
+};
+
+/**
+ * Collects the authors of the given commits in the order of appearance.
+ * The authors whose emails are not in `previousEmails` are marked as the
+ * first-time contributors.
+ */
+export function getContributors(
+  commits: Commit[],
+  previousEmails: Set<string>,
+): Contributor[] {
+  const contributors = new Map<string, Contributor>();
+  for (const { author } of commits) {
+    if (author && !contributors.has(author.email)) {
+      contributors.set(author.email, {
+        ...author,
+        firstTime: !previousEmails.has(author.email),
+      });
+    }
+  }
+  return [...contributors.values()];
+}
+
+/**
+ * Links the pull request references (e.g. `(#1234)`) in the subject and
+ * appends the link to the commit. A string is the repository on GitHub.
+ */
+export function linkCommitSubject(
+  subject: string,
+  hash: string,
+  repo: string | Provider,
+): string {
+  const provider = typeof repo === "string"
+    ? createGitHubProvider({ repo })
+    : repo;
+  const prefix = provider.changeRequestPrefix;
+  const escapedPrefix = prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  subject = subject.replace(
+    new RegExp(`\\(${escapedPrefix}(\\d+)\\)`, "g"),
+    (_, number) =>
+      `([${prefix}${number}](${provider.changeRequestUrl(number)}))`,
+  );
+  return hash
+    ? `${subject} ([${hash.slice(0, 7)}](${provider.commitUrl(hash)}))`
+    : subject;
+}
+
+/** Gets the provider for linking from the options of the release note. */
+function getLinkProvider(
+  { provider, githubRepo }: ReleaseNoteOptions,
+): Provider | undefined {
+  return provider ??
+    (githubRepo ? createGitHubProvider({ repo: githubRepo }) : undefined);
+}
+
+/**
+ * Creates the list item of the commit. The text of `BREAKING CHANGE:` footer
+ * is added as the nested item for the migration.
+ */
+function createCommitListItem(
+  commit: CommitWithTag,
+  subject: string,
+  provider: Provider | undefined,
+) {
+  if (provider) {
+    subject = linkCommitSubject(subject, commit.hash, provider);
+  }
+  const breakingChange = parseBreakingChangeFooter(commit.body);
+  if (!breakingChange) {
+    return `- ${subject}\n`;
+  }
+  return `- ${subject}\n  - BREAKING CHANGE: ${
+    breakingChange.replaceAll("\n", "\n    ")
+  }\n`;
+}
+
+/**
+ * Creates the list of the commits. If the sections are given, the commits are
+ * grouped under the headings of the given level.
+ */
+function createCommitList(
+  commits: CommitWithTag[],
+  options: ReleaseNoteOptions,
+  headingLevel: number,
+) {
+  const { sections } = options;
+  const provider = getLinkProvider(options);
+  if (!sections) {
+    return commits.map((c) => createCommitListItem(c, c.subject, provider))
+      .join("");
+  }
+  return groupCommitsBySection(commits, sections).map((g) =>
+    `${"#".repeat(headingLevel)} ${g.title}\n\n` +
+    g.commits.map((c) =>
+      createCommitListItem(c, stripCommitTag(c.subject), provider)
+    ).join("")
+  ).join("\n");
+}
+
+/** Creates the list of the contributors with the first-time contributors called out. */
+function createContributorList(contributors: Contributor[]) {
+  return "#### Contributors\n\n" +
+    contributors.map((c) =>
+      `- ${c.name}${c.firstTime ? " (first contribution)" : ""}\n`
+    ).join("");
+}
+
+/** Creates the notes of the version override and the version group of the update. */
+function createUpdateNotes(update: VersionUpdateResult) {
+  const notes = [];
+  if (update.override) {
+    notes.push(`Version override: ${update.override.reason}`);
+  }
+  if (update.group) {
+    notes.push(
+      `${update.group.type === "fixed" ? "Fixed" : "Linked"} version group: ${
+        update.group.members.join(", ")
+      }`,
+    );
+  }
+  return notes.map((note) => `${note}\n\n`).join("");
+}
+
+/** Creates the release note. */
 export function createReleaseNote(
   updates: VersionUpdateResult[],
   modules: WorkspaceModule[],
   date: Date,
+  options: ReleaseNoteOptions = {},
 ) {
   const heading = `### ${createReleaseTitle(date)}\n\n`;
-  return heading + updates.map((u) => {
+  const sections = updates.map((u) => {
     const module = getModule(u.summary.module, modules)!;
-    return `#### ${module.name} ${u.to} (${u.diff}) \n` +
-      u.summary.commits.map((c) => `- ${c.subject}\n`).join("");
-  }).join("\n");
+    return `#### ${module.name} ${u.to} (${formatVersionDiff(u)}) \n` +
+      createUpdateNotes(u) +
+      createCommitList(u.summary.commits, options, 5);
+  });
+  if (options.contributors && options.contributors.length > 0) {
+    sections.push(createContributorList(options.contributors));
+  }
+  return heading + sections.join("\n");
+}
+
+/** Creates the section of CHANGELOG.md of the package for the given update. */
+export function createPackageChangelog(
+  update: VersionUpdateResult,
+  date: Date,
+  options: ReleaseNoteOptions = {},
+) {
+  return `### ${update.to} (${createReleaseTitle(date)})\n\n` +
+    createUpdateNotes(update) +
+    createCommitList(update.summary.commits, options, 4);
 }
 
 export function createPrBody(
   updates: VersionUpdateResult[],
   diagnostics: Diagnostic[],
-  githubRepo: string,
+  repo: string | Provider,
   releaseBranch: string,
 ) {
+  const provider = typeof repo === "string"
+    ? createGitHubProvider({ repo })
+    : repo;
   const table = updates.map((u) =>
-    "|" + [u.summary.module, u.from, u.to, u.diff].join("|") + "|"
+    "|" + [u.summary.module, u.from, u.to, formatVersionDiff(u)].join("|") +
+    "|"
   ).join("\n");
 
+  const overrides = updates.filter((u) => u.override);
+  const overridesNotes = overrides.length === 0
+    ? ""
+    : "The versions of the following modules are set explicitly:\n\n" +
+      overrides.map((u) => `- ${u.name}@${u.to}: ${u.override!.reason}`).join(
+        "\n",
+      ) + "\n\n";
+
   const unknownCommitsNotes = createDiagnosticsNotes(
     "The following commits are not recognized. Please handle them manually if necessary:",
     "unknown_commit",
@@ -463,6 +2177,10 @@ export function createPrBody(
     "The following commits are ignored:",
     "skipped_commit",
   );
+  const excludedModuleNotes = createDiagnosticsNotes(
+    "The following commits target the excluded modules and are ignored:",
+    "excluded_module_commit",
+  );
   return `The following updates are detected:
 
 | module   | from    | to      | type  |
@@ -473,13 +2191,13 @@ Please ensure:
 - [ ] Versions in deno.json files are updated correctly
 - [ ] Releases.md is updated correctly
 
-${unknownCommitsNotes}
+${overridesNotes}${unknownCommitsNotes}
 
 ${unknownRangesNotes}
 
 ${missingRangesNotes}
 
-${ignoredCommitsNotes}
+${ignoredCommitsNotes}${excludedModuleNotes && `\n\n${excludedModuleNotes}`}
 
 ---
 
@@ -499,11 +2217,72 @@ git fetch upstream ${releaseBranch} && git checkout -b ${releaseBranch} upstream
     }
     return `${note}\n\n` +
       diagnostics_.map((d) =>
-        `- [${d.commit.subject}](/${githubRepo}/commit/${d.commit.hash})`
+        // The changesets which are not committed yet have no hash
+        d.commit.hash
+          ? `- [${d.commit.subject}](${provider.commitUrl(d.commit.hash)})`
+          : `- ${d.commit.subject}`
       ).join("\n");
   }
 }
 
+/** The default format of the git tags. e.g. `@scope/foo@1.2.3` */
+export const DEFAULT_TAG_FORMAT = "{{name}}@{{version}}";
+
+/** Creates the git tag name of the release of the module with the given format. */
+export function createTagName(
+  format: string,
+  module: { name: string; version: string },
+): string {
+  return renderTemplate(format, { name: module.name, version: module.version });
+}
+
+/**
+ * Extracts the content under the heading of the given level, which starts
+ * with the given title, from the markdown. The content ends at the next
+ * heading of the same or upper level. Returns undefined if the heading is not
+ * found.
+ */
+export function extractMarkdownSection(
+  markdown: string,
+  level: number,
+  title: string,
+): string | undefined {
+  const lines = markdown.split(/\r?\n/);
+  const heading = `${"#".repeat(level)} ${title}`;
+  const start = lines.findIndex((line) => line.startsWith(heading));
+  if (start === -1) {
+    return undefined;
+  }
+  const end = lines.findIndex((line, i) => {
+    const match = /^(#+) /.exec(line);
+    return i > start && match !== null && match[1].length <= level;
+  });
+  return lines.slice(start + 1, end === -1 ? undefined : end).join("\n")
+    .trim();
+}
+
+/**
+ * Extracts the section of the given release from the release note created by
+ * {@linkcode createReleaseNote}, or from CHANGELOG.md created by
+ * {@linkcode createPackageChangelog} if it's not found in the release note.
+ */
+export function extractReleaseSection(
+  module: { name: string; version: string },
+  releaseNote: string | undefined,
+  changelog: string | undefined,
+): string | undefined {
+  return (releaseNote !== undefined
+    ? extractMarkdownSection(
+      releaseNote,
+      4,
+      `${module.name} ${module.version} (`,
+    )
+    : undefined) ??
+    (changelog !== undefined
+      ? extractMarkdownSection(changelog, 3, `${module.version} (`)
+      : undefined);
+}
+
 export function createReleaseBranchName(date: Date) {
   return "release-" +
     date.toISOString().replace("T", "-").replaceAll(":", "-").replace(
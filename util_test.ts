@@ -1,26 +1,78 @@
 // Copyright 2024 the Deno authors. All rights reserved. MIT license.
 
-import { assertEquals, assertExists, assertObjectMatch } from "@std/assert";
+import {
+  assertEquals,
+  assertExists,
+  assertObjectMatch,
+  assertRejects,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import { $ } from "@david/dax";
+import { copy } from "@std/fs/copy";
+import { join } from "@std/path/join";
+import { resolve } from "@std/path/resolve";
 import { assertSnapshot } from "@std/testing/snapshot";
 import denoJson from "./deno.json" with { type: "json" };
 import {
+  applyDependencyUpdates,
   applyVersionBump,
+  applyVersionGroups,
+  checkExcludedModule,
   checkModuleName,
+  createGitReader,
+  createPackageChangelog,
   createPrBody,
   createReleaseBranchName,
   createReleaseNote,
+  createReleaseNoteContext,
   createReleaseTitle,
+  createTagName,
+  DEFAULT_BUMP_RULES,
+  DEFAULT_RELEASE_NOTE_SECTIONS,
+  DEFAULT_TAG_FORMAT,
   defaultParseCommitMessage,
+  denoConfigPathProp,
   type Diagnostic,
+  extractReleaseSection,
+  type FileReader,
+  formatVersionDiff,
+  fsReader,
+  getBumpConfig,
+  getCascadedModules,
+  getContributors,
+  getFixedGroupOverrides,
   getModule,
+  getWorkspaceDependencies,
   getWorkspaceModules,
+  groupCommitsBySection,
+  isExcludedModule,
+  linkCommitSubject,
   maxVersion,
+  packageJsonPathProp,
+  parseBreakingChangeFooter,
+  parseBumpConfig,
+  parseReleaseAsFooter,
   pathProp,
+  type PrereleaseOptions,
+  renderReleaseNoteTemplate,
+  replaceJsoncStringValue,
+  resolveVersionGroups,
+  runCommand,
+  silentLogger,
   summarizeVersionBumpsByModule,
   type VersionBump,
+  type VersionBumpSummary,
+  type VersionUpdate,
   type WorkspaceModule,
 } from "./util.ts";
 import { tryGetDenoConfig } from "./util.ts";
+import {
+  ConfigNotFoundError,
+  InvalidConfigError,
+  InvalidVersionOverrideError,
+} from "./errors.ts";
+import { createGitLabProvider } from "./provider.ts";
 
 const emptyCommit = {
   subject: "",
@@ -236,6 +288,284 @@ Deno.test("defaultParseCommitMessage()", () => {
   );
 });
 
+Deno.test("defaultParseCommitMessage() uses the given rules", () => {
+  const modules: WorkspaceModule[] = [
+    { name: "foo", version: "0.0.0", [pathProp]: "" },
+  ];
+  const { rules } = parseBumpConfig({
+    tags: { security: "patch", docs: "minor" },
+    scopeRequired: ["security"],
+    ignoredTags: ["ci"],
+  }, "deno.json");
+  const commit = (subject: string) => ({ subject, body: "", hash });
+
+  assertEquals(
+    defaultParseCommitMessage(commit("security(foo): fix"), modules, rules),
+    [{
+      module: "foo",
+      tag: "security",
+      version: "patch",
+      commit: commit("security(foo): fix"),
+    }],
+  );
+  assertEquals(
+    defaultParseCommitMessage(commit("docs(foo): add docs"), modules, rules),
+    [{
+      module: "foo",
+      tag: "docs",
+      version: "minor",
+      commit: commit("docs(foo): add docs"),
+    }],
+  );
+  assertEquals(
+    defaultParseCommitMessage(commit("security: fix"), modules, rules),
+    {
+      type: "missing_range",
+      commit: commit("security: fix"),
+      reason: "The commit message does not specify a module.",
+    },
+  );
+  assertEquals(
+    defaultParseCommitMessage(commit("ci(foo): update"), modules, rules),
+    {
+      type: "skipped_commit",
+      commit: commit("ci(foo): update"),
+      reason: "The commit tag is ignored: ci.",
+    },
+  );
+});
+
+Deno.test("parseBumpConfig()", () => {
+  assertEquals(parseBumpConfig(undefined, "deno.json"), {
+    rules: DEFAULT_BUMP_RULES,
+  });
+  const config = parseBumpConfig({
+    skipSubjects: ["^Merge branch"],
+    releaseNotePath: "CHANGELOG.md",
+    releaseBranch: "release",
+  }, "deno.json");
+  assertEquals(config.releaseNotePath, "CHANGELOG.md");
+  assertEquals(config.releaseBranch, "release");
+  assertEquals(config.rules.skipSubjects.map((re) => re.source), [
+    "^v?\\d+\\.\\d+\\.\\d+",
+    "^Release \\d+\\.\\d+\\.\\d+",
+    "^Merge branch",
+  ]);
+
+  assertThrows(
+    () => parseBumpConfig({ tags: { feat: "huge" } }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.tags.feat" must be one of "major", "minor" or "patch", but got "huge".`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ ignoredTags: "ci" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.ignoredTags" must be an array of strings.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ skipSubjects: ["ok", "("] }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.skipSubjects.1" is not a valid regular expression: (`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ packageChangelogs: "yes" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.packageChangelogs" must be a boolean.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ prLabels: "release" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.prLabels" must be an array of strings.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ exclude: "@scope/internal" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.exclude" must be an array of strings.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ fixed: ["@scope/http-*"] }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.fixed" must be an array of arrays of strings.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ changesetMode: "append" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.changesetMode" must be "merge" or "replace".`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ prerelease: "rc.1" }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.prerelease" must consist of alphanumerics and hyphens.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ releaseBranch: true }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.releaseBranch" must be a string.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ tag: {} }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.tag" is not a known option.`,
+  );
+  assertThrows(
+    () => parseBumpConfig({ releaseNoteSections: [{ title: 1 }] }, "deno.json"),
+    InvalidConfigError,
+    `Invalid config in deno.json: "bumpWorkspaces.releaseNoteSections.0" must be an object with "title" string and "tags" array of strings.`,
+  );
+});
+
+Deno.test("parseBumpConfig() - releaseNoteSections", () => {
+  assertEquals(
+    parseBumpConfig({ releaseNoteSections: true }, "deno.json")
+      .releaseNoteSections,
+    DEFAULT_RELEASE_NOTE_SECTIONS,
+  );
+  assertEquals(
+    parseBumpConfig({ releaseNoteSections: false }, "deno.json")
+      .releaseNoteSections,
+    undefined,
+  );
+  assertEquals(
+    parseBumpConfig({
+      releaseNoteSections: [
+        { title: "New", tags: ["feat"] },
+        { title: "Fixed", tags: ["fix", "perf"] },
+      ],
+    }, "deno.json").releaseNoteSections,
+    [
+      { title: "New", tags: ["feat"] },
+      { title: "Fixed", tags: ["fix", "perf"] },
+    ],
+  );
+});
+
+Deno.test("isExcludedModule()", () => {
+  const module = { name: "@scope/internal-tools", version: "0.0.0" };
+  assertEquals(isExcludedModule({ ...module, [pathProp]: "" }), false);
+  assertEquals(
+    isExcludedModule({
+      ...module,
+      bumpWorkspaces: { exclude: true },
+      [pathProp]: "",
+    }),
+    true,
+  );
+  assertEquals(
+    isExcludedModule({ ...module, [pathProp]: "" }, ["@scope/internal-*"]),
+    true,
+  );
+  assertEquals(
+    isExcludedModule({ ...module, [pathProp]: "" }, ["@scope/internal"]),
+    false,
+  );
+  assertEquals(
+    isExcludedModule({ ...module, [pathProp]: "" }, ["*/internal-tools"]),
+    true,
+  );
+});
+
+Deno.test("resolveVersionGroups()", () => {
+  const modules = ["@scope/http-client", "@scope/http-server", "@scope/a"]
+    .map((name) => ({ name, version: "1.0.0", [pathProp]: "" }));
+  assertEquals(
+    resolveVersionGroups(modules, {
+      fixed: [["@scope/http-*"]],
+      linked: [["@scope/a", "@scope/b"], ["@scope/c"]],
+    }, "deno.json"),
+    [
+      { type: "fixed", members: ["@scope/http-client", "@scope/http-server"] },
+      { type: "linked", members: ["@scope/a"] },
+    ],
+  );
+  assertThrows(
+    () =>
+      resolveVersionGroups(modules, {
+        fixed: [["@scope/http-*"]],
+        linked: [["@scope/http-client", "@scope/a"]],
+      }, "deno.json"),
+    InvalidConfigError,
+    "Invalid config in deno.json: @scope/http-client belongs to more than one version group.",
+  );
+});
+
+Deno.test("applyVersionGroups()", () => {
+  const modules = ["@scope/a", "@scope/b", "@scope/c", "@scope/d", "@scope/e"]
+    .map((name) => ({ name, version: "1.0.0", [pathProp]: "" }));
+  const summaries: VersionBumpSummary[] = [
+    { module: "a", version: "patch", commits: [] },
+    { module: "b", version: "minor", commits: [] },
+    { module: "c", version: "patch", commits: [] },
+    { module: "d", version: "major", commits: [] },
+  ];
+  assertEquals(
+    applyVersionGroups(summaries, modules, [
+      { type: "fixed", members: ["@scope/a", "@scope/b", "@scope/e"] },
+      { type: "linked", members: ["@scope/c", "@scope/d"] },
+    ]).map((s) => [s.module, s.version]),
+    [
+      ["a", "minor"],
+      ["b", "minor"],
+      ["c", "major"],
+      ["d", "major"],
+      ["@scope/e", "minor"],
+    ],
+  );
+});
+
+Deno.test("getFixedGroupOverrides()", async () => {
+  const modules = [
+    { name: "@scope/a", version: "1.2.3", [pathProp]: "" },
+    { name: "@scope/b", version: "1.4.0", [pathProp]: "" },
+    { name: "@scope/c", version: "1.0.0", [pathProp]: "" },
+  ];
+  const summaries: VersionBumpSummary[] = [
+    { module: "a", version: "patch", commits: [] },
+    { module: "b", version: "patch", commits: [] },
+    { module: "c", version: "patch", commits: [] },
+  ];
+  assertEquals(
+    await getFixedGroupOverrides(
+      summaries,
+      modules,
+      modules,
+      [{ type: "fixed", members: ["@scope/a", "@scope/b"] }],
+      () => ({}),
+    ),
+    new Map([["@scope/a", {
+      version: "1.4.1",
+      reason: "Fixed version group (@scope/a, @scope/b)",
+    }]]),
+  );
+  // The summaries are not changed
+  assertEquals(summaries[0].version, "patch");
+});
+
+Deno.test("checkExcludedModule()", () => {
+  const excluded = [{
+    name: "@scope/legacy",
+    version: "1.0.0",
+    [pathProp]: "",
+  }];
+  assertEquals(
+    checkExcludedModule(
+      { module: "foo", tag: "fix", commit: emptyCommit },
+      excluded,
+    ),
+    undefined,
+  );
+  assertEquals(
+    checkExcludedModule(
+      { module: "legacy", tag: "fix", commit: emptyCommit },
+      excluded,
+    ),
+    {
+      type: "excluded_module_commit",
+      commit: emptyCommit,
+      reason: "The module is excluded from the version bumps: @scope/legacy.",
+    },
+  );
+});
+
 Deno.test("checkModuleName()", () => {
   assertEquals(
     checkModuleName({ module: "foo", tag: "chore", commit: emptyCommit }, [
@@ -267,6 +597,62 @@ Deno.test("checkModuleName()", () => {
   );
 });
 
+Deno.test("defaultParseCommitMessage() handles BREAKING CHANGE footer", () => {
+  const modules: WorkspaceModule[] = [
+    { name: "foo", version: "0.0.0", [pathProp]: "" },
+    { name: "bar", version: "0.0.0", [pathProp]: "" },
+  ];
+  const commit = {
+    subject: "feat(foo): new option",
+    body: "Adds `bar` option.\n\nBREAKING CHANGE: `baz` option is removed.",
+    hash,
+  };
+  assertEquals(defaultParseCommitMessage(commit, modules), [
+    { module: "foo", tag: "feat", version: "major", commit },
+  ]);
+  const unstable = { ...commit, subject: "feat(unstable/foo): new option" };
+  assertEquals(defaultParseCommitMessage(unstable, modules), [
+    { module: "foo", tag: "feat", version: "patch", commit: unstable },
+  ]);
+  const noScope = { ...commit, subject: "chore: new option" };
+  assertEquals(defaultParseCommitMessage(noScope, modules), {
+    type: "missing_range",
+    commit: noScope,
+    reason: "The commit message does not specify a module.",
+  });
+});
+
+Deno.test("parseBreakingChangeFooter()", () => {
+  assertEquals(parseBreakingChangeFooter(""), undefined);
+  assertEquals(
+    parseBreakingChangeFooter("This mentions BREAKING CHANGE: in the body."),
+    undefined,
+  );
+  assertEquals(
+    parseBreakingChangeFooter("Some body\n\nBREAKING CHANGE: remove `foo()`"),
+    "remove `foo()`",
+  );
+  assertEquals(
+    parseBreakingChangeFooter(
+      "BREAKING-CHANGE: `foo()` is renamed.\nUse `bar()` instead.\nRefs: #123",
+    ),
+    "`foo()` is renamed.\nUse `bar()` instead.",
+  );
+});
+
+Deno.test("parseReleaseAsFooter()", () => {
+  assertEquals(parseReleaseAsFooter(""), undefined);
+  assertEquals(parseReleaseAsFooter("Release-As: 1.0.0"), "1.0.0");
+  assertEquals(
+    parseReleaseAsFooter("Some body\n\nRelease-As: 2.0.0-rc.0\nRefs: #123"),
+    "2.0.0-rc.0",
+  );
+  assertEquals(
+    parseReleaseAsFooter("This mentions Release-As: 1.0.0 in the body."),
+    undefined,
+  );
+});
+
 Deno.test("defaultParseCommitMessage() errors with invalid subject", () => {
   const modules: WorkspaceModule[] = [
     { name: "foo", version: "0.0.0", [pathProp]: "" },
@@ -746,6 +1132,146 @@ Deno.test("getWorkspaceModules()", async (t) => {
   await assertSnapshot(t, modules);
 });
 
+Deno.test("getWorkspaceModules() expands glob patterns in workspace field", async () => {
+  const [_, modules] = await getWorkspaceModules("testdata/glob");
+  assertEquals(modules.map((m) => [m.name, m[pathProp]]), [
+    ["@scope/a", "testdata/glob/packages/a/deno.json"],
+    ["@scope/b", "testdata/glob/packages/b/deno.jsonc"],
+    ["@scope/tools", "testdata/glob/tools/deno.json"],
+  ]);
+});
+
+Deno.test("getWorkspaceModules() reads the files with the given reader", async () => {
+  const files: Record<string, string> = {
+    "root/deno.json": JSON.stringify({ workspace: ["./packages/*", "./foo"] }),
+    "root/packages/a/deno.json": JSON.stringify({
+      name: "@scope/a",
+      version: "1.0.0",
+    }),
+    "root/foo/deno.json": JSON.stringify({
+      name: "@scope/foo",
+      version: "0.1.0",
+    }),
+  };
+  const reader: FileReader = {
+    readTextFile: (path) => Promise.resolve(files[path]),
+    expandGlob: () => Promise.resolve(["root/packages/a", "root/packages/b"]),
+    listFiles: () => Promise.resolve([]),
+  };
+  const [path, modules] = await getWorkspaceModules("root", reader);
+  assertEquals(path, "root/deno.json");
+  assertEquals(modules, [
+    {
+      name: "@scope/a",
+      version: "1.0.0",
+      [pathProp]: "root/packages/a/deno.json",
+      [denoConfigPathProp]: "root/packages/a/deno.json",
+    },
+    {
+      name: "@scope/foo",
+      version: "0.1.0",
+      [pathProp]: "root/foo/deno.json",
+      [denoConfigPathProp]: "root/foo/deno.json",
+    },
+  ]);
+});
+
+Deno.test("createGitReader() reads the files at the given revision", async () => {
+  const reader = createGitReader("HEAD");
+  assertEquals(
+    await reader.readTextFile("testdata/glob/deno.json"),
+    await Deno.readTextFile("testdata/glob/deno.json"),
+  );
+  assertEquals(await reader.readTextFile("testdata/glob/none.json"), undefined);
+  assertEquals(
+    await reader.listFiles("testdata/glob"),
+    await fsReader.listFiles("testdata/glob"),
+  );
+  assertEquals(await reader.listFiles("testdata/none"), []);
+  assertEquals(
+    await getWorkspaceModules("testdata/glob", reader),
+    await getWorkspaceModules("testdata/glob"),
+  );
+});
+
+Deno.test("createGitReader() reads the files at the absolute paths", async () => {
+  const reader = createGitReader("HEAD");
+  const root = resolve("testdata/glob");
+  assertEquals(
+    await reader.readTextFile(join(root, "deno.json")),
+    await Deno.readTextFile(join(root, "deno.json")),
+  );
+  assertEquals(await reader.listFiles(root), await fsReader.listFiles(root));
+  assertEquals(
+    await reader.expandGlob(root, "./*"),
+    await fsReader.expandGlob(root, "./*"),
+  );
+  assertEquals(
+    await getWorkspaceModules(root, reader),
+    await getWorkspaceModules(root),
+  );
+});
+
+Deno.test("getWorkspaceModules() reads package.json workspaces", async () => {
+  const [path, modules] = await getWorkspaceModules("testdata/hybrid");
+  assertEquals(path, "testdata/hybrid/deno.json");
+  assertEquals(
+    modules.map((m) => [
+      m.name,
+      m[pathProp],
+      m[packageJsonPathProp],
+      m[denoConfigPathProp],
+    ]),
+    [
+      [
+        "@scope/deno-pkg",
+        "testdata/hybrid/deno_pkg/deno.json",
+        undefined,
+        "testdata/hybrid/deno_pkg/deno.json",
+      ],
+      [
+        "@scope/both",
+        "testdata/hybrid/both/deno.json",
+        "testdata/hybrid/both/package.json",
+        "testdata/hybrid/both/deno.json",
+      ],
+      // The version is only declared in package.json
+      [
+        "@scope/mixed",
+        "testdata/hybrid/mixed/package.json",
+        "testdata/hybrid/mixed/package.json",
+        "testdata/hybrid/mixed/deno.json",
+      ],
+      [
+        "@scope/npm-pkg",
+        "testdata/hybrid/npm_pkg/package.json",
+        "testdata/hybrid/npm_pkg/package.json",
+        undefined,
+      ],
+    ],
+  );
+});
+
+Deno.test("getWorkspaceModules() throws when the config is not found or invalid", async () => {
+  await assertRejects(
+    () => getWorkspaceModules("testdata/glob/packages/assets"),
+    ConfigNotFoundError,
+    "No deno.json, deno.jsonc or package.json found in",
+  );
+  await assertRejects(
+    () => getWorkspaceModules("testdata/basic/foo"),
+    InvalidConfigError,
+    "The workspace field is not found.",
+  );
+  const dir = await Deno.makeTempDir();
+  await Deno.writeTextFile(join(dir, "deno.json"), `{ "workspace": [ }`);
+  await assertRejects(
+    () => getWorkspaceModules(dir),
+    InvalidConfigError,
+    `Invalid config in ${join(dir, "deno.json")}:`,
+  );
+});
+
 Deno.test("getModule", async () => {
   const [_, modules] = await getWorkspaceModules("testdata/basic");
   const mod = getModule("foo", modules);
@@ -942,6 +1468,152 @@ Deno.test("applyVersionBump() respect manual version upgrade if the version betw
   );
 });
 
+Deno.test("applyVersionBump() enters and continues the prerelease channel", async () => {
+  const bump = async (
+    version: string,
+    diff: VersionUpdate,
+    options: PrereleaseOptions,
+  ) => {
+    const module = {
+      name: "@scope/foo",
+      version,
+      [pathProp]: "foo/deno.jsonc",
+    };
+    const [_, { to, diff: actual }] = await applyVersionBump(
+      { module: "foo", version: diff, commits: [] },
+      { ...module },
+      module,
+      "{}",
+      true,
+      silentLogger,
+      options,
+    );
+    return `${to} (${actual})`;
+  };
+  const rc = { prerelease: "rc" };
+  assertEquals(await bump("1.2.3", "minor", rc), "1.3.0-rc.0 (prerelease)");
+  assertEquals(await bump("1.2.3", "patch", rc), "1.2.4-rc.0 (prerelease)");
+  assertEquals(await bump("0.2.3", "major", rc), "0.3.0-rc.0 (prerelease)");
+  assertEquals(
+    await bump("1.3.0-rc.0", "patch", rc),
+    "1.3.0-rc.1 (prerelease)",
+  );
+  assertEquals(
+    await bump("1.3.0-rc.1", "minor", rc),
+    "1.3.0-rc.2 (prerelease)",
+  );
+  assertEquals(
+    await bump("1.3.0-rc.1", "major", rc),
+    "2.0.0-rc.0 (prerelease)",
+  );
+  assertEquals(
+    await bump("1.2.4-rc.1", "minor", rc),
+    "1.3.0-rc.0 (prerelease)",
+  );
+  assertEquals(
+    await bump("1.3.0-beta.2", "patch", rc),
+    "1.3.0-rc.0 (prerelease)",
+  );
+  assertEquals(
+    await bump("1.3.0-rc.2", "patch", { graduate: true }),
+    "1.3.0 (minor)",
+  );
+  assertEquals(
+    await bump("2.0.0-rc.2", "patch", { prerelease: "rc", graduate: true }),
+    "2.0.0 (major)",
+  );
+  assertEquals(
+    await bump("1.2.3", "minor", { graduate: true }),
+    "1.3.0 (minor)",
+  );
+});
+
+Deno.test("applyVersionBump() sets the overridden version", async () => {
+  const module = {
+    name: "@scope/foo",
+    version: "0.2.3",
+    [pathProp]: "foo/deno.jsonc",
+  };
+  const override = { version: "1.0.0", reason: "set explicitly" };
+  const [denoJson, updateResult] = await applyVersionBump(
+    { module: "foo", version: "patch", commits: [] },
+    { ...module },
+    module,
+    `{ "imports": { "@scope/foo": "jsr:@scope/foo@^0.2.3" } }`,
+    true,
+    silentLogger,
+    { override },
+  );
+  assertEquals(updateResult, {
+    name: "@scope/foo",
+    from: "0.2.3",
+    to: "1.0.0",
+    diff: "major",
+    path: "foo/deno.jsonc",
+    summary: { module: "foo", version: "major", commits: [] },
+    override,
+  });
+  assertEquals(
+    denoJson,
+    `{ "imports": { "@scope/foo": "jsr:@scope/foo@^1.0.0" } }`,
+  );
+});
+
+Deno.test("applyVersionBump() throws with invalid version override", async () => {
+  const module = {
+    name: "@scope/foo",
+    version: "1.2.3",
+    [pathProp]: "foo/deno.jsonc",
+  };
+  const bump = (version: string) =>
+    applyVersionBump(
+      { module: "foo", version: "patch", commits: [] },
+      { ...module },
+      module,
+      "{}",
+      true,
+      silentLogger,
+      { override: { version, reason: "set explicitly" } },
+    );
+  await assertRejects(
+    () => bump("1.x"),
+    InvalidVersionOverrideError,
+    "Invalid version override for @scope/foo: 1.x is not a valid version.",
+  );
+  await assertRejects(
+    () => bump("1.2.3"),
+    InvalidVersionOverrideError,
+    "1.2.3 is not greater than the current version 1.2.3.",
+  );
+  await assertRejects(() => bump("1.0.0"), InvalidVersionOverrideError);
+});
+
+Deno.test("formatVersionDiff()", () => {
+  const update = { name: "foo", path: "", summary: {} as VersionBumpSummary };
+  assertEquals(
+    formatVersionDiff({ ...update, from: "1.2.3", to: "1.3.0", diff: "minor" }),
+    "minor",
+  );
+  assertEquals(
+    formatVersionDiff({
+      ...update,
+      from: "1.2.3",
+      to: "1.3.0-rc.0",
+      diff: "prerelease",
+    }),
+    "prerelease, rc",
+  );
+  assertEquals(
+    formatVersionDiff({
+      ...update,
+      from: "1.3.0-rc.2",
+      to: "1.3.0",
+      diff: "minor",
+    }),
+    "minor, graduated from rc",
+  );
+});
+
 Deno.test("applyVersionBump() works for new module (the case when oldModule is undefined)", async () => {
   const [denoJson, updateResult] = await applyVersionBump(
     {
@@ -973,6 +1645,352 @@ Deno.test("applyVersionBump() works for new module (the case when oldModule is u
   );
 });
 
+Deno.test("applyVersionBump() keeps comments and formatting of deno.jsonc", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = join(dir, "deno.jsonc");
+  await Deno.writeTextFile(
+    path,
+    `// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+{
+    "name": "@scope/foo", // the package name
+    /* the version is updated by the tool */
+    "version": "1.0.0",
+    "exports": { ".": "./mod.ts", },
+}
+`,
+  );
+  await applyVersionBump(
+    {
+      module: "foo",
+      version: "minor",
+      commits: [],
+    },
+    { name: "@scope/foo", version: "1.0.0", [pathProp]: path },
+    { name: "@scope/foo", version: "1.0.0", [pathProp]: path },
+    "",
+  );
+  assertEquals(
+    await Deno.readTextFile(path),
+    `// Copyright 2024 the Deno authors. All rights reserved. MIT license.
+{
+    "name": "@scope/foo", // the package name
+    /* the version is updated by the tool */
+    "version": "1.1.0",
+    "exports": { ".": "./mod.ts", },
+}
+`,
+  );
+});
+
+Deno.test("replaceJsoncStringValue() replaces only the value at the given key path", () => {
+  const text = `{
+  // "version": "0.0.0"
+  "imports": { "version": "1.0.0" },
+  "version": "1.0.0", /* "version": "2.0.0" */
+}`;
+  assertEquals(
+    replaceJsoncStringValue(text, ["version"], "1.0.1"),
+    `{
+  // "version": "0.0.0"
+  "imports": { "version": "1.0.0" },
+  "version": "1.0.1", /* "version": "2.0.0" */
+}`,
+  );
+  assertEquals(
+    replaceJsoncStringValue(text, ["imports", "version"], "1.1.0"),
+    `{
+  // "version": "0.0.0"
+  "imports": { "version": "1.1.0" },
+  "version": "1.0.0", /* "version": "2.0.0" */
+}`,
+  );
+  assertThrows(
+    () => replaceJsoncStringValue(text, ["name"], "1.0.0"),
+    Error,
+    `The key "name" is not found.`,
+  );
+});
+
+Deno.test("getWorkspaceDependencies()", () => {
+  const modules: WorkspaceModule[] = [
+    { name: "@scope/foo", version: "1.0.0", [pathProp]: "foo/deno.json" },
+    {
+      name: "@scope/bar",
+      version: "1.0.0",
+      imports: {
+        "@scope/foo": "jsr:@scope/foo@^1.0.0",
+        "@scope/foo/": "jsr:@scope/foo@^1.0.0/",
+        "@std/path": "jsr:@std/path@^1.0.0",
+      },
+      [pathProp]: "bar/deno.json",
+      [denoConfigPathProp]: "bar/deno.json",
+    },
+    {
+      name: "@scope/baz",
+      version: "1.0.0",
+      imports: { "foo": "@scope/foo", "bar": "jsr:@scope/bar@~1.0.0" },
+      [pathProp]: "baz/deno.json",
+      [denoConfigPathProp]: "baz/deno.json",
+    },
+    {
+      name: "@scope/qux",
+      version: "1.0.0",
+      dependencies: { "@scope/foo": "workspace:^1.0.0", "chalk": "^5.0.0" },
+      devDependencies: { "@scope/bar": "1.0.0" },
+      [pathProp]: "qux/package.json",
+      [packageJsonPathProp]: "qux/package.json",
+    },
+  ];
+  assertEquals(
+    getWorkspaceDependencies(modules, {
+      "@scope/foo": "jsr:@scope/foo@^1.0.0",
+    }),
+    [
+      {
+        dependent: "@scope/bar",
+        dependency: "@scope/foo",
+        location: { path: "bar/deno.json", keyPath: ["imports", "@scope/foo"] },
+        range: "^1.0.0",
+      },
+      {
+        dependent: "@scope/bar",
+        dependency: "@scope/foo",
+        location: {
+          path: "bar/deno.json",
+          keyPath: ["imports", "@scope/foo/"],
+        },
+        range: "^1.0.0",
+      },
+      {
+        dependent: "@scope/baz",
+        dependency: "@scope/foo",
+        location: undefined,
+        range: "^1.0.0",
+      },
+      {
+        dependent: "@scope/baz",
+        dependency: "@scope/bar",
+        location: { path: "baz/deno.json", keyPath: ["imports", "bar"] },
+        range: "~1.0.0",
+      },
+      {
+        dependent: "@scope/qux",
+        dependency: "@scope/foo",
+        location: {
+          path: "qux/package.json",
+          keyPath: ["dependencies", "@scope/foo"],
+        },
+        range: "^1.0.0",
+      },
+      {
+        dependent: "@scope/qux",
+        dependency: "@scope/bar",
+        location: {
+          path: "qux/package.json",
+          keyPath: ["devDependencies", "@scope/bar"],
+        },
+        range: "1.0.0",
+      },
+    ],
+  );
+});
+
+Deno.test("getCascadedModules() finds the dependents without updating them", async () => {
+  const modules: WorkspaceModule[] = [
+    { name: "@scope/foo", version: "1.0.0", [pathProp]: "foo/deno.json" },
+    {
+      name: "@scope/bar",
+      version: "1.0.0",
+      imports: { "@scope/foo": "jsr:@scope/foo@^1.0.0" },
+      [pathProp]: "bar/deno.json",
+      [denoConfigPathProp]: "bar/deno.json",
+    },
+    {
+      name: "@scope/baz",
+      version: "0.1.0",
+      imports: { "@scope/bar": "jsr:@scope/bar@1.0.0" },
+      [pathProp]: "baz/deno.json",
+      [denoConfigPathProp]: "baz/deno.json",
+    },
+  ];
+  const summaries: VersionBumpSummary[] = [
+    { module: "foo", version: "major", commits: [] },
+  ];
+  assertEquals(
+    await getCascadedModules(summaries, modules, modules, {}, () => ({})),
+    ["@scope/bar", "@scope/baz"],
+  );
+  assertEquals(modules.map((m) => m.version), ["1.0.0", "1.0.0", "0.1.0"]);
+  assertEquals(summaries, [{ module: "foo", version: "major", commits: [] }]);
+});
+
+Deno.test("applyDependencyUpdates() bumps the dependents when the new version is out of range", async () => {
+  const dir = await Deno.makeTempDir();
+  const fooPath = join(dir, "foo.json");
+  const barPath = join(dir, "bar.jsonc");
+  const bazPath = join(dir, "baz.json");
+  await Deno.writeTextFile(
+    fooPath,
+    `{ "name": "@scope/foo", "version": "2.0.0" }`,
+  );
+  await Deno.writeTextFile(
+    barPath,
+    `{
+  "name": "@scope/bar",
+  "version": "1.0.0",
+  "imports": {
+    // depends on foo
+    "@scope/foo": "jsr:@scope/foo@^1.0.0",
+  },
+}`,
+  );
+  await Deno.writeTextFile(
+    bazPath,
+    `{
+  "name": "@scope/baz",
+  "version": "0.1.0",
+  "imports": { "@scope/bar": "jsr:@scope/bar@~1.0.0" }
+}`,
+  );
+  const modules: WorkspaceModule[] = [
+    { name: "@scope/foo", version: "2.0.0", [pathProp]: fooPath },
+    {
+      name: "@scope/bar",
+      version: "1.0.0",
+      imports: { "@scope/foo": "jsr:@scope/foo@^1.0.0" },
+      [pathProp]: barPath,
+      [denoConfigPathProp]: barPath,
+    },
+    {
+      name: "@scope/baz",
+      version: "0.1.0",
+      imports: { "@scope/bar": "jsr:@scope/bar@~1.0.0" },
+      [pathProp]: bazPath,
+      [denoConfigPathProp]: bazPath,
+    },
+  ];
+  const oldModules: WorkspaceModule[] = [
+    { name: "@scope/foo", version: "1.2.3", [pathProp]: fooPath },
+    { name: "@scope/bar", version: "1.0.0", [pathProp]: barPath },
+    { name: "@scope/baz", version: "0.1.0", [pathProp]: bazPath },
+  ];
+  const [denoJson, updates] = await applyDependencyUpdates(
+    [{
+      name: "@scope/foo",
+      from: "1.2.3",
+      to: "2.0.0",
+      diff: "major",
+      path: fooPath,
+      summary: { module: "foo", version: "major", commits: [] },
+    }],
+    modules,
+    oldModules,
+    {},
+    `{ "imports": { "@scope/bar": "jsr:@scope/bar@^1.0.0" } }`,
+  );
+  assertEquals(
+    denoJson,
+    `{ "imports": { "@scope/bar": "jsr:@scope/bar@^1.0.1" } }`,
+  );
+  assertEquals(updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["foo", "1.2.3", "2.0.0"],
+    ["@scope/bar", "1.0.0", "1.0.1"],
+  ]);
+  assertEquals(
+    updates[1].summary.commits.map((c) => c.subject),
+    ["updated dependency @scope/foo to 2.0.0"],
+  );
+  assertEquals(
+    await Deno.readTextFile(barPath),
+    `{
+  "name": "@scope/bar",
+  "version": "1.0.1",
+  "imports": {
+    // depends on foo
+    "@scope/foo": "jsr:@scope/foo@^2.0.0",
+  },
+}`,
+  );
+  // 1.0.1 satisfies ~1.0.0, so baz is not bumped
+  assertEquals(
+    await Deno.readTextFile(bazPath),
+    `{
+  "name": "@scope/baz",
+  "version": "0.1.0",
+  "imports": { "@scope/bar": "jsr:@scope/bar@~1.0.0" }
+}`,
+  );
+});
+
+Deno.test("applyVersionBump() and applyDependencyUpdates() update package.json", async () => {
+  const dir = await Deno.makeTempDir();
+  await copy("testdata/hybrid", dir, { overwrite: true });
+  const [_, modules] = await getWorkspaceModules(dir);
+  const both = getModule("both", modules)!;
+  const [denoJson, update] = await applyVersionBump(
+    { module: "both", version: "major", commits: [] },
+    both,
+    { ...both },
+    "",
+  );
+  const [__, updates] = await applyDependencyUpdates(
+    [update],
+    modules,
+    structuredClone(modules),
+    {},
+    denoJson,
+  );
+  assertEquals(updates.map((u) => [u.summary.module, u.from, u.to]), [
+    ["both", "0.1.0", "0.2.0"],
+    ["@scope/mixed", "3.0.0", "3.0.1"],
+    ["@scope/npm-pkg", "2.0.0", "2.0.1"],
+  ]);
+  assertEquals(
+    await Deno.readTextFile(join(dir, "both/package.json")),
+    `{
+  "name": "@scope/both",
+  "version": "0.2.0",
+  "type": "module"
+}
+`,
+  );
+  // The version is updated in package.json and the import map in deno.json
+  assertEquals(
+    await Deno.readTextFile(join(dir, "mixed/package.json")),
+    `{
+  "name": "@scope/mixed",
+  "version": "3.0.1",
+  "type": "module"
+}
+`,
+  );
+  assertEquals(
+    await Deno.readTextFile(join(dir, "mixed/deno.json")),
+    `{
+  "name": "@scope/mixed",
+  "exports": "./mod.ts",
+  "imports": {
+    "@scope/both": "jsr:@scope/both@^0.2.0"
+  }
+}
+`,
+  );
+  assertEquals(
+    await Deno.readTextFile(join(dir, "npm_pkg/package.json")),
+    `{
+  "name": "@scope/npm-pkg",
+  "version": "2.0.1",
+  "dependencies": {
+    "@scope/both": "^0.2.0"
+  },
+  "devDependencies": {
+    "@scope/deno-pkg": "workspace:*"
+  }
+}
+`,
+  );
+});
+
 async function createVersionUpdateResults(
   versionBumps: VersionBump[],
   modules: WorkspaceModule[],
@@ -1006,6 +2024,342 @@ Deno.test("createReleaseNote()", async (t) => {
   await assertSnapshot(t, createReleaseNote(updates, modules, new Date(0)));
 });
 
+Deno.test("createReleaseNote() with sections", async (t) => {
+  const [_, modules] = await getWorkspaceModules("testdata/std_mock");
+  const [updates, _diagnostics] = await createVersionUpdateResults(
+    exampleVersionBumps,
+    modules,
+  );
+  await assertSnapshot(
+    t,
+    createReleaseNote(
+      updates,
+      modules,
+      new Date(0),
+      { sections: DEFAULT_RELEASE_NOTE_SECTIONS },
+    ),
+  );
+});
+
+Deno.test("createReleaseNote() with links and contributors", () => {
+  const alice = { name: "Alice", email: "alice@example.com" };
+  const bob = { name: "Bob", email: "bob@example.com" };
+  const commits = [
+    { subject: "feat(foo): add a feature (#12)", tag: "feat", author: alice },
+    { subject: "fix(foo): fix a bug", tag: "fix", author: bob },
+  ].map((c) => ({ ...c, body: "", hash }));
+  const update = {
+    name: "@scope/foo",
+    from: "1.2.3",
+    to: "1.3.0",
+    diff: "minor" as const,
+    path: "foo/deno.json",
+    summary: { module: "foo", version: "minor" as const, commits },
+  };
+  const modules = [{ name: "@scope/foo", version: "1.3.0", [pathProp]: "" }];
+  assertEquals(
+    createReleaseNote([update], modules, new Date(0), {
+      githubRepo: "denoland/foo",
+      contributors: getContributors(commits, new Set([alice.email])),
+    }),
+    `### 1970.01.01
+
+#### @scope/foo 1.3.0 (minor) 
+- feat(foo): add a feature ([#12](https://github.com/denoland/foo/pull/12)) ([${
+      hash.slice(0, 7)
+    }](https://github.com/denoland/foo/commit/${hash}))
+- fix(foo): fix a bug ([${
+      hash.slice(0, 7)
+    }](https://github.com/denoland/foo/commit/${hash}))
+
+#### Contributors
+
+- Alice
+- Bob (first contribution)
+`,
+  );
+});
+
+Deno.test("createReleaseNote() shows the version group", () => {
+  const group = {
+    type: "fixed" as const,
+    members: ["@scope/http-client", "@scope/http-server"],
+  };
+  const updates = group.members.map((name) => ({
+    name,
+    from: "1.2.3",
+    to: "1.3.0",
+    diff: "minor" as const,
+    path: "",
+    summary: { module: name, version: "minor" as const, commits: [] },
+    group,
+  }));
+  const modules = group.members.map((name) => ({
+    name,
+    version: "1.3.0",
+    [pathProp]: "",
+  }));
+  assertEquals(
+    createReleaseNote(updates, modules, new Date(0)),
+    `### 1970.01.01
+
+#### @scope/http-client 1.3.0 (minor) 
+Fixed version group: @scope/http-client, @scope/http-server
+
+
+#### @scope/http-server 1.3.0 (minor) 
+Fixed version group: @scope/http-client, @scope/http-server
+
+`,
+  );
+});
+
+Deno.test("createReleaseNote() and createPrBody() show the version override", () => {
+  const update = {
+    name: "@scope/crypto",
+    from: "0.4.1",
+    to: "1.0.0",
+    diff: "major" as const,
+    path: "crypto/deno.json",
+    summary: { module: "crypto", version: "major" as const, commits: [] },
+    override: { version: "1.0.0", reason: "set explicitly" },
+  };
+  const modules = [{ name: "@scope/crypto", version: "1.0.0", [pathProp]: "" }];
+  assertEquals(
+    createReleaseNote([update], modules, new Date(0)),
+    `### 1970.01.01
+
+#### @scope/crypto 1.0.0 (major) 
+Version override: set explicitly
+
+`,
+  );
+  assertStringIncludes(
+    createPrBody([update], [], "denoland/foo", "release"),
+    `The versions of the following modules are set explicitly:
+
+- @scope/crypto@1.0.0: set explicitly
+`,
+  );
+});
+
+Deno.test("getContributors()", () => {
+  const alice = { name: "Alice", email: "alice@example.com" };
+  const bob = { name: "Bob", email: "bob@example.com" };
+  const commit = { subject: "", body: "", hash };
+  assertEquals(
+    getContributors([
+      { ...commit, author: bob },
+      { ...commit },
+      { ...commit, author: alice },
+      { ...commit, author: bob },
+    ], new Set([alice.email])),
+    [
+      { ...bob, firstTime: true },
+      { ...alice, firstTime: false },
+    ],
+  );
+});
+
+Deno.test("linkCommitSubject()", () => {
+  assertEquals(
+    linkCommitSubject("fix(foo): a bug (#1234)", "", "denoland/std"),
+    "fix(foo): a bug ([#1234](https://github.com/denoland/std/pull/1234))",
+  );
+  assertEquals(
+    linkCommitSubject("fix(foo): a bug", "abcdef0123456789", "denoland/std"),
+    "fix(foo): a bug ([abcdef0](https://github.com/denoland/std/commit/abcdef0123456789))",
+  );
+  assertEquals(
+    linkCommitSubject(
+      "fix(foo): a bug (!12) (#34)",
+      "abcdef0123456789",
+      createGitLabProvider({ repo: "group/std" }),
+    ),
+    "fix(foo): a bug ([!12](https://gitlab.com/group/std/-/merge_requests/12)) (#34) ([abcdef0](https://gitlab.com/group/std/-/commit/abcdef0123456789))",
+  );
+});
+
+Deno.test("groupCommitsBySection()", () => {
+  const commit = { subject: "", body: "", hash, tag: "" };
+  const feat = { ...commit, subject: "feat(foo): add a feature", tag: "feat" };
+  const breaking = {
+    ...commit,
+    subject: "feat(foo)!: change api",
+    tag: "feat",
+  };
+  const docs = { ...commit, subject: "docs(foo): fix typo", tag: "docs" };
+  assertEquals(
+    groupCommitsBySection(
+      [breaking, feat, docs],
+      DEFAULT_RELEASE_NOTE_SECTIONS,
+    ),
+    [
+      { title: "Breaking changes", commits: [breaking] },
+      { title: "Features", commits: [feat] },
+      { title: "Other", commits: [docs] },
+    ],
+  );
+  // The commits which match no section are dropped
+  assertEquals(
+    groupCommitsBySection([feat, docs], [{ title: "New", tags: ["feat"] }]),
+    [{ title: "New", commits: [feat] }],
+  );
+});
+
+Deno.test("createPackageChangelog()", () => {
+  const commit = { subject: "", body: "", hash, tag: "" };
+  assertEquals(
+    createPackageChangelog({
+      name: "@scope/foo",
+      from: "1.2.3",
+      to: "1.3.0",
+      diff: "minor",
+      path: "foo/deno.json",
+      summary: {
+        module: "foo",
+        version: "minor",
+        commits: [
+          { ...commit, subject: "feat(foo): add a feature", tag: "feat" },
+          { ...commit, subject: "fix(foo,bar): fix a bug", tag: "fix" },
+        ],
+      },
+    }, new Date(0)),
+    `### 1.3.0 (1970.01.01)
+
+- feat(foo): add a feature
+- fix(foo,bar): fix a bug
+`,
+  );
+});
+
+Deno.test("createPackageChangelog() with sections", () => {
+  const commit = { subject: "", body: "", hash, tag: "" };
+  assertEquals(
+    createPackageChangelog(
+      {
+        name: "@scope/foo",
+        from: "1.2.3",
+        to: "1.3.0",
+        diff: "minor",
+        path: "foo/deno.json",
+        summary: {
+          module: "foo",
+          version: "minor",
+          commits: [
+            { ...commit, subject: "feat(foo): add a feature", tag: "feat" },
+            { ...commit, subject: "feat(foo): add another", tag: "feat" },
+            { ...commit, subject: "fix(foo,bar): fix a bug", tag: "fix" },
+          ],
+        },
+      },
+      new Date(0),
+      { sections: DEFAULT_RELEASE_NOTE_SECTIONS },
+    ),
+    `### 1.3.0 (1970.01.01)
+
+#### Features
+
+- add a feature
+- add another
+
+#### Bug fixes
+
+- fix a bug
+`,
+  );
+});
+
+Deno.test("createPackageChangelog() with BREAKING CHANGE footer", () => {
+  const commit = { subject: "", body: "", hash, tag: "" };
+  const update = {
+    name: "@scope/foo",
+    from: "1.2.3",
+    to: "2.0.0",
+    diff: "major" as const,
+    path: "foo/deno.json",
+    summary: {
+      module: "foo",
+      version: "major" as const,
+      commits: [
+        { ...commit, subject: "fix(foo): fix a bug", tag: "fix" },
+        {
+          ...commit,
+          subject: "feat(foo): new option",
+          body: "BREAKING CHANGE: `bar` option is removed.\nUse `baz` instead.",
+          tag: "feat",
+        },
+      ],
+    },
+  };
+  assertEquals(
+    createPackageChangelog(update, new Date(0)),
+    `### 2.0.0 (1970.01.01)
+
+- fix(foo): fix a bug
+- feat(foo): new option
+  - BREAKING CHANGE: \`bar\` option is removed.
+    Use \`baz\` instead.
+`,
+  );
+  assertEquals(
+    createPackageChangelog(update, new Date(0), {
+      sections: DEFAULT_RELEASE_NOTE_SECTIONS,
+    }),
+    `### 2.0.0 (1970.01.01)
+
+#### Breaking changes
+
+- new option
+  - BREAKING CHANGE: \`bar\` option is removed.
+    Use \`baz\` instead.
+
+#### Bug fixes
+
+- fix a bug
+`,
+  );
+});
+
+Deno.test("renderReleaseNoteTemplate()", async () => {
+  const { releaseNoteTemplate } = await getBumpConfig("testdata/template");
+  const [_, modules] = await getWorkspaceModules("testdata/std_mock");
+  const [updates, diagnostics] = await createVersionUpdateResults(
+    exampleVersionBumps.filter((b) => b.module === "crypto"),
+    modules,
+  );
+  const context = createReleaseNoteContext(updates, diagnostics, new Date(0));
+  assertEquals(
+    renderReleaseNoteTemplate(releaseNoteTemplate!, context),
+    `## 1970.01.01
+
+### @std/crypto v0.213.1
+
+- chore(crypto): upgrade to \`rust@1.75.0\` and \`wasmbuild@0.15.5\` (#4193) (0000000)
+`,
+  );
+  assertEquals(
+    renderReleaseNoteTemplate(
+      (context) => context.updates.map((u) => `${u.name}@${u.to}`).join(", "),
+      context,
+    ),
+    "@std/crypto@0.213.1",
+  );
+});
+
+Deno.test("getBumpConfig() throws when the template file is not found", async () => {
+  const dir = await Deno.makeTempDir();
+  await Deno.writeTextFile(
+    join(dir, "deno.json"),
+    JSON.stringify({ bumpWorkspaces: { prBodyTemplate: "pr.md" } }),
+  );
+  await assertRejects(
+    () => getBumpConfig(dir),
+    InvalidConfigError,
+    `"bumpWorkspaces.prBodyTemplate" file is not found: pr.md`,
+  );
+});
+
 Deno.test("createPrBody()", async (t) => {
   const [_, modules] = await getWorkspaceModules("testdata/std_mock");
   const [updates, diagnostics] = await createVersionUpdateResults(
@@ -1023,6 +2377,98 @@ Deno.test("createPrBody()", async (t) => {
   );
 });
 
+Deno.test("createPrBody() doesn't link the commits without hash", () => {
+  const body = createPrBody(
+    [],
+    [{
+      type: "unknown_commit",
+      commit: { hash: "", subject: "Add a feature", body: "" },
+      reason: "Unknown module: unknown.",
+    }],
+    "denoland/deno_std",
+    "release-1970-01-01-00-00-00",
+  );
+  assertStringIncludes(body, "\n- Add a feature\n");
+  assertEquals(body.includes("/commit/)"), false);
+});
+
+Deno.test("createPrBody() shows the commits of the excluded modules", () => {
+  const body = createPrBody(
+    [],
+    [{
+      type: "excluded_module_commit",
+      commit: { hash: "", subject: "fix(legacy): fix a bug", body: "" },
+      reason: "The module is excluded from the version bumps: @scope/legacy.",
+    }],
+    "denoland/deno_std",
+    "release-1970-01-01-00-00-00",
+  );
+  assertStringIncludes(
+    body,
+    "\n\nThe following commits target the excluded modules and are ignored:\n\n- fix(legacy): fix a bug\n\n---\n",
+  );
+});
+
+Deno.test("createTagName()", () => {
+  const module = { name: "@scope/foo", version: "1.2.3" };
+  assertEquals(createTagName(DEFAULT_TAG_FORMAT, module), "@scope/foo@1.2.3");
+  assertEquals(createTagName("v{{version}}", module), "v1.2.3");
+});
+
+Deno.test("extractReleaseSection()", () => {
+  const releaseNote = `### 2024.05.02
+
+#### @scope/foo 1.3.0 (minor)
+
+##### Features
+
+- add a feature
+
+#### @scope/bar 0.1.1 (patch)
+
+- fix a bug
+
+#### Contributors
+
+- Alice
+
+### 2024.05.01
+
+#### @scope/foo 1.2.0 (minor)
+
+- add another feature
+`;
+  const changelog = `### 1.3.0 (2024.05.02)
+
+- feat(foo): add a feature
+
+### 1.2.0 (2024.05.01)
+
+- feat(foo): add another feature
+`;
+  const foo = { name: "@scope/foo", version: "1.3.0" };
+  assertEquals(
+    extractReleaseSection(foo, releaseNote, changelog),
+    "##### Features\n\n- add a feature",
+  );
+  assertEquals(
+    extractReleaseSection(
+      { name: "@scope/bar", version: "0.1.1" },
+      releaseNote,
+      undefined,
+    ),
+    "- fix a bug",
+  );
+  assertEquals(
+    extractReleaseSection(foo, undefined, changelog),
+    "- feat(foo): add a feature",
+  );
+  assertEquals(
+    extractReleaseSection({ ...foo, version: "2.0.0" }, releaseNote, changelog),
+    undefined,
+  );
+});
+
 Deno.test("createReleaseBranchName()", () => {
   const date = new Date(0);
   assertEquals(
@@ -1035,3 +2481,18 @@ Deno.test("createReleaseTitle()", () => {
   const date = new Date(0);
   assertEquals(createReleaseTitle(date), "1970.01.01");
 });
+
+Deno.test("runCommand() passes the output to the logger", async () => {
+  const logs: unknown[][] = [];
+  const logger = {
+    ...silentLogger,
+    log: (...data: unknown[]) => logs.push(data),
+  };
+  await runCommand($`git rev-parse --is-inside-work-tree`, logger);
+  assertEquals(logs, [["true"]]);
+  await assertRejects(
+    () => runCommand($`git rev-parse --verify refs/no/such-ref`, logger),
+    Error,
+    "The command exited with code 128:\nfatal: Needed a single revision",
+  );
+});